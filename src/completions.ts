@@ -0,0 +1,62 @@
+/**
+ * FuzroDo argument completion
+ * Answers completion/complete for workflow prompt arguments (which mirror the
+ * workflow tools' arguments) from the completion providers each workflow
+ * declares, or from the field's enum
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CompleteRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { workflowRegistry } from './workflows/registry.js';
+import { mcpClientManager } from './utils/mcpClient.js';
+import { listCompletion } from './utils/completion.js';
+import { logger } from './utils/logger.js';
+import { CompletionProvider, WorkflowDefinition } from './types/workflow.js';
+
+// completion/complete returns at most 100 values
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Register the completion handler on a server instance
+ */
+export function registerCompletionHandlers(server: Server): void {
+  server.setRequestHandler(CompleteRequestSchema, async request => {
+    const { ref, argument, context } = request.params;
+
+    const workflow = ref.type === 'ref/prompt' ? workflowRegistry.get(ref.name) : undefined;
+    const provider = workflow && getProvider(workflow, argument.name);
+    if (!provider) {
+      return { completion: { values: [] } };
+    }
+
+    let values: string[];
+    try {
+      values = await provider(argument.value, {
+        arguments: context?.arguments ?? {},
+        mcpManager: mcpClientManager,
+      });
+    } catch (error) {
+      logger.debug('Completion provider failed', { workflow: workflow!.id, argument: argument.name, error });
+      values = [];
+    }
+
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETION_VALUES,
+      },
+    };
+  });
+}
+
+/**
+ * The workflow's provider for an argument, falling back to the field's enum
+ */
+function getProvider(workflow: WorkflowDefinition, argument: string): CompletionProvider | undefined {
+  const declared = workflow.completions?.[argument];
+  if (declared) return declared;
+
+  const values = workflow.inputSchema.properties?.[argument]?.enum;
+  return Array.isArray(values) ? listCompletion(values.map(String)) : undefined;
+}
@@ -9,332 +9,119 @@
 // before any other modules access them
 import './config.js';
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  ErrorCode,
-  McpError,
-} from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { startHttpTransport, HttpTransportHandle } from './transports/http.js';
 import { workflowRegistry } from './workflows/registry.js';
 import { mcpClientManager } from './utils/mcpClient.js';
-import { validateWorkflowRequirements, formatValidationResult } from './utils/requirements.js';
+import { workflowStateManager } from './utils/workflowState.js';
 import { logger } from './utils/logger.js';
-import { RequirementError } from './utils/errors.js';
-
-const server = new Server(
-  {
-    name: 'fuzrodo',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-/**
- * Handle tool listing requests
- * Tools are dynamically generated from registered workflows
- */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  // Get tools from workflow registry
-  const workflowTools = workflowRegistry.toMCPTools();
-
-  // Add system tools
-  const tools = [
-    {
-      name: 'hello_world',
-      description: 'A simple test tool to verify FuzroDo is working',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          name: {
-            type: 'string',
-            description: 'Name to greet',
-          },
-        },
-        required: ['name'],
-      },
-    },
-    ...workflowTools,
-  ];
-
-  logger.debug(`Listing ${tools.length} tools (${workflowTools.length} workflows + 1 system tool)`);
-  return { tools };
-});
 
 /**
- * Handle tool execution requests
- * Routes to appropriate workflow based on tool name
+ * Read a CLI option given as --name=value or --name value
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    // Handle test tool
-    if (name === 'hello_world') {
-      const { name: userName } = args as { name: string };
-      logger.info('hello_world tool called', { userName });
-
-      // Get health status of MCP servers
-      const health = await mcpClientManager.getHealthStatus();
-      const configured = mcpClientManager.getConfiguredServers();
-
-      let statusText = `Hello ${userName}! FuzroDo MCP server is running successfully.\n\n`;
-      statusText += `Configured MCP servers: ${configured.length}\n`;
-
-      if (health.length > 0) {
-        statusText += '\nMCP Server Health:\n';
-        for (const server of health) {
-          const status = server.connected ? '✅' : '❌';
-          const details = server.connected
-            ? `${server.toolCount} tools available`
-            : `Error: ${server.error}`;
-          statusText += `  ${status} ${server.name}: ${details}\n`;
-        }
-      }
-
-      statusText += `\nRegistered workflows: ${workflowRegistry.count()}`;
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: statusText,
-          },
-        ],
-      };
-    }
-
-    // Check if this is a registered workflow
-    const workflow = workflowRegistry.get(name);
-    if (!workflow) {
-      throw new McpError(
-        ErrorCode.MethodNotFound,
-        `Unknown tool: ${name}. Available workflows: ${workflowRegistry.getIds().join(', ')}`
-      );
-    }
-
-    logger.info(`Executing workflow: ${workflow.id}`, { name: workflow.name });
-
-    // Validate workflow requirements
-    logger.debug('Validating workflow requirements');
-    const validation = await validateWorkflowRequirements(workflow, mcpClientManager);
-
-    if (!validation.valid) {
-      const errorMessage = formatValidationResult(validation);
-      logger.error('Workflow requirements validation failed', { workflow: workflow.id });
-
-      throw new RequirementError(
-        `Workflow ${workflow.id} requirements not met:\n${errorMessage}`,
-        validation.errors,
-        workflow.id
-      );
-    }
-
-    if (validation.warnings.length > 0) {
-      logger.warn('Workflow has warnings', {
-        workflow: workflow.id,
-        warnings: validation.warnings
-      });
+function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
     }
-
-    // Create and execute the workflow graph
-    logger.debug('Creating workflow graph');
-    const graph = workflow.createGraph();
-
-    // Initialize workflow state with required arrays
-    const initialState = {
-      ...args,
-      currentStep: 'start',
-      completedSteps: [],
-      errors: []
-    };
-
-    logger.debug('Invoking workflow', { args });
-    const result = await graph.invoke(initialState as any);
-
-    logger.info('Workflow completed', {
-      workflow: workflow.id,
-      success: !result.error,
-      status: result.status,
-      hasResumeToken: !!result.resumeToken
-    });
-
-    // Debug log the actual result structure
-    logger.debug('Workflow result structure', {
-      resultKeys: Object.keys(result),
-      result: JSON.stringify(result, null, 2)
-    });
-
-    // Format result for MCP response
-    const responseText = formatWorkflowResult(workflow, result);
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: responseText,
-        },
-      ],
-    };
-  } catch (error) {
-    if (error instanceof McpError) {
-      throw error;
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
     }
-
-    if (error instanceof RequirementError) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        error.message
-      );
-    }
-
-    logger.error('Tool execution failed', {
-      tool: name,
-      error: error instanceof Error ? error.message : String(error)
-    });
-
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
-    );
   }
-});
+  return undefined;
+}
+
+let httpTransport: HttpTransportHandle | undefined;
 
 /**
- * Format workflow execution result for display
+ * Start the MCP server
+ * Transport: --transport / FUZRODO_TRANSPORT = stdio (default) | http | sse (alias of http)
+ * HTTP options: --host / FUZRODO_HTTP_HOST, --port / FUZRODO_HTTP_PORT,
+ * FUZRODO_HTTP_AUTH_TOKEN
+ * Workflows: discovered from the workflow directories (FUZRODO_WORKFLOWS_DIR)
+ * and reloaded when they change unless FUZRODO_WATCH_WORKFLOWS=false
  */
-function formatWorkflowResult(workflow: any, result: any): string {
-  const lines: string[] = [];
-
-  lines.push(`Workflow: ${workflow.name} (${workflow.id})`);
-  lines.push(`Version: ${workflow.version}`);
-  lines.push('');
-
-  // Handle partial workflow response (awaiting LLM action)
-  if (result.status === 'awaiting_llm_action') {
-    lines.push('⏸️  Workflow Paused - Action Required');
-    lines.push('');
-
-    if (result.completedSteps && result.completedSteps.length > 0) {
-      lines.push('✓ Completed steps:');
-      result.completedSteps.forEach((step: string) => lines.push(`  - ${step}`));
-      lines.push('');
-    }
-
-    lines.push(`📋 Required Action: ${result.action.description}`);
-    lines.push('');
-
-    if (result.action.prompt) {
-      lines.push('Instructions:');
-      lines.push(result.action.prompt);
-      lines.push('');
-    }
-
-    if (result.action.availableTools && result.action.availableTools.length > 0) {
-      lines.push(`Available Tools: ${result.action.availableTools.join(', ')}`);
-      lines.push('');
-    }
-
-    lines.push(`Required Outputs: ${result.action.requiredOutputs.join(', ')}`);
-    lines.push('');
-    lines.push(`Resume Token: ${result.resumeToken}`);
-    lines.push('');
-    lines.push('After completing the action, call resume_workflow with the resume token and results.');
+async function main() {
+  logger.info('Starting FuzroDo MCP server');
 
-    return lines.join('\n');
+  const configError = mcpClientManager.getConfigError();
+  if (configError) {
+    throw configError;
   }
 
-  // Handle completed workflow
-  if (result.error) {
-    lines.push('❌ Workflow Failed');
-    lines.push('');
-
-    if (result.completedSteps && result.completedSteps.length > 0) {
-      lines.push('✓ Completed steps:');
-      result.completedSteps.forEach((step: string) => lines.push(`  - ${step}`));
-      lines.push('');
-    }
-
-    if (result.failedStep) {
-      lines.push(`✗ Failed at step: ${result.failedStep}`);
-    }
+  await workflowRegistry.discover();
+  if (process.env.FUZRODO_WATCH_WORKFLOWS !== 'false') {
+    workflowRegistry.watch();
+  }
 
-    if (result.errors && result.errors.length > 0) {
-      lines.push('');
-      lines.push('Errors:');
-      result.errors.forEach((err: any) =>
-        lines.push(`  [${err.step}] ${err.error}`)
-      );
-    }
+  logger.info(`Configured MCP servers: ${mcpClientManager.getConfiguredServers().join(', ') || 'none'}`);
+  logger.info(`Registered workflows: ${workflowRegistry.count()}`);
+  if (workflowRegistry.getLoadFailures().length > 0) {
+    logger.warn(`Workflows that failed to load: ${workflowRegistry.getLoadFailures().length}`);
+  }
+  logger.info(`Paused workflow runs: ${workflowStateManager.count()} (${workflowStateManager.getStoreKind()} store)`);
 
-    lines.push('');
-    lines.push(`Error: ${result.error}`);
-  } else {
-    lines.push('✅ Workflow Completed Successfully');
-    lines.push('');
+  const transportType = (getCliOption('transport') || process.env.FUZRODO_TRANSPORT || 'stdio').toLowerCase();
 
-    if (result.completedSteps && result.completedSteps.length > 0) {
-      lines.push('Completed steps:');
-      result.completedSteps.forEach((step: string) => lines.push(`  ✓ ${step}`));
-      lines.push('');
+  if (transportType === 'http' || transportType === 'sse') {
+    const port = Number(getCliOption('port') || process.env.FUZRODO_HTTP_PORT || 3000);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid HTTP port: ${port}`);
     }
 
-    // Include relevant data from result
-    const resultKeys = Object.keys(result).filter(key =>
-      !['currentStep', 'completedSteps', 'errors', 'error'].includes(key) && result[key] !== undefined
-    );
-
-    if (resultKeys.length > 0) {
-      lines.push('Results:');
+    httpTransport = await startHttpTransport(createServer, {
+      host: getCliOption('host') || process.env.FUZRODO_HTTP_HOST || '127.0.0.1',
+      port,
+      authToken: process.env.FUZRODO_HTTP_AUTH_TOKEN || undefined,
+    });
+    return;
+  }
 
-      // Show all non-workflow keys for debugging
-      resultKeys.forEach(key => {
-        const value = result[key];
-        if (typeof value === 'string') {
-          lines.push(`  ${key}: ${value.length > 100 ? value.substring(0, 100) + '...' : value}`);
-        } else if (Array.isArray(value)) {
-          lines.push(`  ${key}: [${value.length} items]`);
-        } else {
-          lines.push(`  ${key}: ${JSON.stringify(value)}`);
-        }
-      });
-    }
+  if (transportType !== 'stdio') {
+    throw new Error(`Unknown transport: ${transportType}. Expected stdio, http or sse (alias of http)`);
   }
 
-  return lines.join('\n');
-}
+  const server = createServer();
+  const transport = new StdioServerTransport();
 
-/**
- * Start the MCP server
- */
-async function main() {
-  logger.info('Starting FuzroDo MCP server');
-  logger.info(`Configured MCP servers: ${mcpClientManager.getConfiguredServers().join(', ') || 'none'}`);
-  logger.info(`Registered workflows: ${workflowRegistry.count()}`);
+  // The client closing stdin ends the session, so shut down rather than orphan downstream servers
+  const closeResources = server.onclose;
+  server.onclose = () => {
+    closeResources?.();
+    void shutdown();
+  };
+  process.stdin.on('close', () => void shutdown());
 
-  const transport = new StdioServerTransport();
   await server.connect(transport);
 
   logger.info('FuzroDo MCP server running on stdio');
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('Shutting down FuzroDo MCP server');
-  await mcpClientManager.disconnectAll();
-  process.exit(0);
-});
+let shuttingDown = false;
+
+/**
+ * Stop accepting clients and disconnect from all pooled downstream MCP servers
+ */
+async function shutdown(): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
 
-process.on('SIGTERM', async () => {
   logger.info('Shutting down FuzroDo MCP server');
-  await mcpClientManager.disconnectAll();
+  workflowRegistry.stopWatching();
+  try {
+    await httpTransport?.close();
+    await mcpClientManager.disconnectAll();
+  } catch (error) {
+    logger.error('Error during shutdown', { error });
+  }
   process.exit(0);
-});
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 main().catch((error) => {
   logger.error('Fatal error in main()', { error });
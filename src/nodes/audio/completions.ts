@@ -0,0 +1,27 @@
+/**
+ * Completion providers for ElevenLabs fields
+ */
+
+import { z } from 'zod';
+import { toolCompletion } from '../../utils/completion';
+
+/**
+ * Voices come back as names or voice objects, on their own or under `voices`
+ */
+const voiceSchema = z.union([
+  z.string(),
+  z.object({ name: z.string() }).passthrough().transform(voice => voice.name),
+]);
+const voiceListSchema = z.union([
+  z.array(voiceSchema),
+  z.object({ voices: z.array(voiceSchema) }).transform(result => result.voices),
+]);
+
+/**
+ * ElevenLabs voice names, from the ElevenLabs MCP server's list_voices tool
+ */
+export const elevenLabsVoiceCompletion = toolCompletion({
+  server: 'elevenlabs',
+  tool: 'list_voices',
+  extract: result => result.json(voiceListSchema),
+});
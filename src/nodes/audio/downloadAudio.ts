@@ -2,81 +2,45 @@
  * Download audio file from ElevenLabs
  */
 
-import { MCPClientManager } from '../../utils/mcpClient';
 import { JiraAudioQuoteState } from '../../workflows/jiraAudioQuote/state';
-import { logger } from '../../utils/logger';
+import { WorkflowRequirements } from '../../types/workflow';
+import { recordArtifact } from '../../utils/runRegistry';
+import { createToolNode } from '../toolNode';
 import * as path from 'path';
 import * as os from 'os';
 
 /**
- * Download audio file using ElevenLabs MCP
+ * Output path in the temp directory
  */
-export async function downloadAudioNode(
-  state: JiraAudioQuoteState,
-  mcpManager: MCPClientManager
-): Promise<Partial<JiraAudioQuoteState>> {
-  try {
-    if (!state.audioId) {
-      throw new Error('Audio ID is required but not provided');
-    }
-
-    if (!state.ticketKey) {
-      throw new Error('Ticket key is required but not provided');
-    }
-
-    // Generate output path in temp directory
-    const outputPath = path.join(
-      os.tmpdir(),
-      `jira-${state.ticketKey}-quote.mp3`
-    );
-
-    logger.info('Downloading audio file', {
-      audioId: state.audioId,
-      outputPath
-    });
-
-    // Call ElevenLabs MCP to download audio
-    await mcpManager.callTool(
-      'elevenlabs',
-      'download_audio',
-      {
-        audio_id: state.audioId,
-        output_path: outputPath
-      }
-    );
-
-    logger.info('Audio downloaded successfully', {
-      audioPath: outputPath
-    });
-
-    // Return complete state for final output
-    return {
-      currentStep: 'completed',
-      completedSteps: [...state.completedSteps, 'downloadAudio'],
-      audioPath: outputPath,
-      // Preserve fields for output
-      ticketKey: state.ticketKey,
-      ticketUrl: state.ticketUrl,
-      quote: state.quote,
-      projectKey: state.projectKey,
-      context: state.context,
-      enhancedQuote: state.enhancedQuote,
-      voiceDirections: state.voiceDirections,
-      audioId: state.audioId
-    };
-  } catch (error) {
-    logger.error('Failed to download audio', { error });
+function audioOutputPath(state: JiraAudioQuoteState): string {
+  return path.join(os.tmpdir(), `jira-${state.ticketKey}-quote.mp3`);
+}
 
-    return {
-      currentStep: 'error',
-      error: `Failed to download audio: ${(error as Error).message}`,
-      errors: [
-        ...(state.errors || []),
-        {
-          step: 'downloadAudio',
-          error: (error as Error).message
-        }
-      ]
-    };
-  }
+/**
+ * Download audio file using ElevenLabs MCP
+ * requirements are the calling workflow's
+ */
+export function downloadAudioNode(requirements: WorkflowRequirements) {
+  return createToolNode<JiraAudioQuoteState>({
+    step: 'downloadAudio',
+    server: 'elevenlabs',
+    tool: 'download_audio',
+    requirements,
+    description: 'download audio',
+    required: ['audioId', 'ticketKey'],
+    args: state => ({
+      audio_id: state.audioId,
+      output_path: audioOutputPath(state),
+    }),
+    output: (_result, state, config) => {
+      const audioPath = audioOutputPath(state);
+
+      // Expose the file as a fuzrodo://artifacts resource
+      recordArtifact(config, audioPath, 'audio/mpeg');
+      return { audioPath };
+    },
+    nextStep: 'completed',
+    // Re-downloading to the same path is safe, so allow retries
+    policy: { idempotent: true },
+  });
 }
@@ -0,0 +1,10 @@
+/**
+ * Completion providers for Jira fields
+ */
+
+import { envListCompletion } from '../../utils/completion';
+
+/**
+ * Jira project keys from JIRA_PROJECT_KEYS (comma-separated, e.g. FEDS,OPS)
+ */
+export const jiraProjectKeyCompletion = envListCompletion('JIRA_PROJECT_KEYS');
@@ -0,0 +1,44 @@
+/**
+ * Pause for Claude to create the Jira ticket via Playwright
+ */
+
+import { JiraAudioQuoteState } from '../../workflows/jiraAudioQuote/state';
+import { LLMAction } from '../../types/workflow';
+import { requestLLMAction } from '../../utils/checkpointing';
+import { logger } from '../../utils/logger';
+
+/**
+ * Ask Claude to create the ticket from the generated Atlassian prompt
+ * and resume with the ticket details and extracted quote
+ */
+export async function createTicketNode(
+  state: JiraAudioQuoteState
+): Promise<Partial<JiraAudioQuoteState>> {
+  const action: LLMAction = {
+    type: 'browser_automation',
+    description: 'Create the Jira ticket using Playwright',
+    prompt: state.atlassianPrompt || '',
+    requiredOutputs: ['ticketKey', 'ticketUrl', 'quote'],
+    availableTools: ['playwright'],
+    context: { projectKey: state.projectKey }
+  };
+
+  // Pauses the graph here until resume_workflow supplies the results
+  const results = requestLLMAction<{
+    ticketKey: string;
+    ticketUrl: string;
+    quote: string;
+  }>(action);
+
+  logger.info('Jira ticket created by Claude', {
+    ticketKey: results.ticketKey
+  });
+
+  return {
+    currentStep: 'processQuote',
+    completedSteps: [...state.completedSteps, 'createTicket'],
+    ticketKey: results.ticketKey,
+    ticketUrl: results.ticketUrl,
+    quote: results.quote
+  };
+}
@@ -6,13 +6,17 @@ import { MCPClientManager } from '../../utils/mcpClient';
 import { JiraAudioQuoteState } from '../../workflows/jiraAudioQuote/state';
 import { logger } from '../../utils/logger';
 import { enhanceQuoteForAudio } from '../subAgents/enhanceQuote';
+import { getLLM } from '../../utils/llm';
+import { elicitInput } from '../../utils/elicitation';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
 
 /**
  * Enhance the quote for audio impact using sub-agent
  */
 export async function processQuoteNode(
   state: JiraAudioQuoteState,
-  mcpManager: MCPClientManager
+  mcpManager: MCPClientManager,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<JiraAudioQuoteState>> {
   try {
     if (!state.quote) {
@@ -27,17 +31,19 @@ export async function processQuoteNode(
     const enhanced = await enhanceQuoteForAudio({
       quote: state.quote,
       context: state.context || 'mystical, contemplative'
-    });
+    }, getLLM(config), config?.signal);
 
     logger.info('Quote enhanced successfully', {
       enhancedLength: enhanced.enhancedQuote.length,
       voiceDirections: enhanced.voiceDirections
     });
 
+    const enhancedQuote = await confirmEnhancedQuote(state.quote, enhanced.enhancedQuote, config);
+
     return {
       currentStep: 'generateAudio',
       completedSteps: [...state.completedSteps, 'processQuote'],
-      enhancedQuote: enhanced.enhancedQuote,
+      enhancedQuote,
       voiceDirections: enhanced.voiceDirections
     };
   } catch (error) {
@@ -56,3 +62,43 @@ export async function processQuoteNode(
     };
   }
 }
+
+/**
+ * Let the user check the enhanced quote before audio is generated for it
+ * Accepting keeps it (or uses their edit), declining falls back to the original
+ * quote; clients without elicitation get the enhanced quote unchanged
+ */
+async function confirmEnhancedQuote(
+  quote: string,
+  enhancedQuote: string,
+  config?: LangGraphRunnableConfig
+): Promise<string> {
+  const result = await elicitInput(
+    config,
+    `Generate audio for this quote?\n\n${enhancedQuote}\n\nAccept to use it (optionally edited), or decline to use the original quote.`,
+    {
+      type: 'object',
+      properties: {
+        editedQuote: {
+          type: 'string',
+          title: 'Edited quote',
+          description: 'Leave empty to use the quote as shown'
+        }
+      }
+    }
+  );
+
+  if (!result) return enhancedQuote;
+
+  switch (result.action) {
+    case 'accept': {
+      const edited = result.content?.editedQuote;
+      return typeof edited === 'string' && edited.trim() ? edited.trim() : enhancedQuote;
+    }
+    case 'decline':
+      logger.info('User declined the enhanced quote; using the original');
+      return quote;
+    default:
+      throw new Error('Quote confirmation was dismissed');
+  }
+}
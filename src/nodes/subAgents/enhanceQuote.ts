@@ -2,9 +2,8 @@
  * Sub-agent for enhancing quotes for audio impact
  */
 
-import { ChatOpenAI } from '@langchain/openai';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { logger } from '../../utils/logger';
+import { LLMClient } from '../../utils/llm';
 
 export interface EnhanceQuoteInput {
   quote: string;
@@ -22,17 +21,13 @@ export interface EnhanceQuoteOutput {
  * This is a self-contained task that doesn't need conversation context
  */
 export async function enhanceQuoteForAudio(
-  input: EnhanceQuoteInput
+  input: EnhanceQuoteInput,
+  llm: LLMClient,
+  signal?: AbortSignal
 ): Promise<EnhanceQuoteOutput> {
   logger.info('Spawning sub-agent to enhance quote for audio', {
-    quoteLength: input.quote.length
-  });
-
-  // Initialize OpenAI via LangChain
-  const model = new ChatOpenAI({
-    model: process.env.OPENAI_MODEL || 'gpt-4o',
-    temperature: 0.7, // Allow creativity for enhancement
-    apiKey: process.env.OPENAI_API_KEY
+    quoteLength: input.quote.length,
+    llm: llm.name
   });
 
   // System prompt defines the sub-agent's behavior
@@ -67,13 +62,14 @@ Output Format (JSON):
 
   try {
     // Invoke the sub-agent
-    const response = await model.invoke([
-      new SystemMessage(systemPrompt),
-      new HumanMessage(userPrompt)
-    ]);
+    const content = await llm.complete({
+      systemPrompt,
+      prompt: userPrompt,
+      temperature: 0.7, // Allow creativity for enhancement
+      signal
+    });
 
     // Parse JSON response
-    const content = response.content.toString();
 
     // Try to extract JSON from markdown code blocks if present
     const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
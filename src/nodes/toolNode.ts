@@ -0,0 +1,105 @@
+/**
+ * Generic MCP tool-call node
+ * Builds a node that checks its required state fields, calls one tool on a
+ * downstream MCP server and maps the result into state, with the same
+ * logging, error recording and step tracking as every other node
+ */
+
+import { MCPClientManager } from '../utils/mcpClient';
+import { ToolResult } from '../utils/toolResult';
+import { logger } from '../utils/logger';
+import { NodeError, toolErrorDetails } from '../utils/errors';
+import { reportStepProgress } from '../utils/progress';
+import { MCPCallPolicy } from '../types/mcpConnections';
+import { WorkflowRequirements, WorkflowStepError } from '../types/workflow';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+
+/**
+ * Step tracking fields every workflow state has
+ */
+interface StepState {
+  currentStep: string;
+  completedSteps: string[];
+  error?: string;
+  errors?: WorkflowStepError[];
+}
+
+/**
+ * A workflow node, called from the graph with the workflow's MCP client manager
+ */
+export type WorkflowNode<S> = (
+  state: S,
+  mcpManager: MCPClientManager,
+  config?: LangGraphRunnableConfig
+) => Promise<Partial<S>>;
+
+export interface ToolNodeOptions<S extends StepState> {
+  step: string; // Recorded in completedSteps and errors
+  server: string;
+  tool: string;
+  requirements: WorkflowRequirements; // The workflow's requirements, which must list the tool
+  description: string; // What the step does, for logs and errors (e.g. 'generate audio')
+  required?: Array<keyof S & string>; // State fields that must be set before calling the tool
+  args: (state: S) => Record<string, any>;
+  output: (result: ToolResult, state: S, config?: LangGraphRunnableConfig) => Partial<S>;
+  nextStep: string; // currentStep once the tool has succeeded
+  policy?: MCPCallPolicy; // Overrides the configured timeout/retry policy for this call
+}
+
+/**
+ * Create a node that calls an MCP tool
+ * Throws NodeError if the tool is not listed in the workflow's requirements,
+ * so requirement checks before a run cover every tool the graph calls
+ */
+export function createToolNode<S extends StepState>(options: ToolNodeOptions<S>): WorkflowNode<S> {
+  const { step, server, tool, description } = options;
+
+  const listed = options.requirements.mcpServers.some(
+    requirement => requirement.name === server && requirement.tools.includes(tool)
+  );
+  if (!listed) {
+    throw new NodeError(`Step ${step} calls ${tool} on ${server}, which is not listed in the workflow's requirements`, step);
+  }
+
+  return async (state, mcpManager, config) => {
+    try {
+      for (const field of options.required ?? []) {
+        if (state[field] === undefined || state[field] === null || state[field] === '') {
+          throw new Error(`${field} is required but not provided`);
+        }
+      }
+
+      const args = options.args(state);
+      logger.info(`Step ${step}: calling ${tool} on ${server} to ${description}`);
+
+      const result = await mcpManager.callToolResult(server, tool, args, options.policy, {
+        onProgress: progress => reportStepProgress(config, progress),
+        signal: config?.signal,
+      });
+      const updates = options.output(result, state, config);
+
+      logger.info(`Step ${step} completed`, { updated: Object.keys(updates) });
+
+      return {
+        ...updates,
+        currentStep: options.nextStep,
+        completedSteps: [...(state.completedSteps || []), step],
+      } as Partial<S>;
+    } catch (error) {
+      logger.error(`Failed to ${description}`, { error });
+
+      return {
+        currentStep: 'error',
+        error: `Failed to ${description}: ${(error as Error).message}`,
+        errors: [
+          ...(state.errors || []),
+          {
+            step,
+            error: (error as Error).message,
+            ...toolErrorDetails(error),
+          },
+        ],
+      } as Partial<S>;
+    }
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * FuzroDo MCP prompts
+ * Publishes each workflow's playbook as a prompt, so a workflow can be
+ * started from the client's prompt picker with its instructions loaded
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
+  type Prompt,
+  type PromptArgument,
+} from '@modelcontextprotocol/sdk/types.js';
+import { workflowRegistry } from './workflows/registry.js';
+import { JSONSchema, WorkflowDefinition } from './types/workflow.js';
+
+/**
+ * Register prompt handlers on a server instance
+ */
+export function registerPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: workflowRegistry.list()
+      .filter(workflow => workflow.prompt)
+      .map(toPrompt),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async request => {
+    const { name, arguments: args = {} } = request.params;
+    const workflow = workflowRegistry.get(name);
+
+    if (!workflow?.prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = (workflow.inputSchema.required ?? []).filter(field => !args[field]);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required arguments for ${name}: ${missing.join(', ')}`
+      );
+    }
+
+    const instructions = workflow.prompt.instructions.replace(
+      /\{\{(\w+)\}\}/g,
+      (_match, field: string) => args[field] ?? ''
+    );
+    const toolArguments = toToolArguments(workflow.inputSchema, args);
+
+    return {
+      description: workflow.prompt.description ?? workflow.description,
+      messages: [
+        {
+          role: 'user' as const,
+          content: {
+            type: 'text' as const,
+            text: [
+              instructions.trim(),
+              '',
+              `Arguments for the \`${workflow.id}\` tool:`,
+              '```json',
+              JSON.stringify(toolArguments, null, 2),
+              '```',
+            ].join('\n'),
+          },
+        },
+      ],
+    };
+  });
+}
+
+function toPrompt(workflow: WorkflowDefinition): Prompt {
+  return {
+    name: workflow.id,
+    title: workflow.name,
+    description: workflow.prompt?.description ?? workflow.description,
+    arguments: toPromptArguments(workflow.inputSchema),
+  };
+}
+
+/**
+ * One prompt argument per top-level inputSchema property
+ */
+function toPromptArguments(schema: JSONSchema): PromptArgument[] {
+  const required = schema.required ?? [];
+
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    name,
+    description: property.description,
+    required: required.includes(name),
+  }));
+}
+
+/**
+ * Prompt arguments are always strings; convert them to the types inputSchema declares
+ */
+function toToolArguments(schema: JSONSchema, args: Record<string, string>): Record<string, unknown> {
+  const properties = schema.properties ?? {};
+
+  return Object.fromEntries(
+    Object.entries(args)
+      .filter(([name, value]) => name in properties && value !== '')
+      .map(([name, value]) => [name, coerce(properties[name]?.type, value)])
+  );
+}
+
+function coerce(type: string | undefined, value: string): unknown {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(value);
+      return Number.isNaN(number) ? value : number;
+    }
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array':
+    case 'object':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
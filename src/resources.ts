@@ -0,0 +1,209 @@
+/**
+ * FuzroDo MCP resources
+ * Serves workflow run records (fuzrodo://runs/{id}) and the files runs
+ * produced (fuzrodo://artifacts/{id}), with update notifications
+ */
+
+import { promises as fs } from 'fs';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { workflowRuns, WorkflowRunRecord, WorkflowArtifact } from './utils/runRegistry.js';
+import { logger } from './utils/logger.js';
+
+const RUN_URI_PREFIX = 'fuzrodo://runs/';
+const ARTIFACT_URI_PREFIX = 'fuzrodo://artifacts/';
+
+export function runUri(runId: string): string {
+  return `${RUN_URI_PREFIX}${encodeURIComponent(runId)}`;
+}
+
+export function artifactUri(artifactId: string): string {
+  return `${ARTIFACT_URI_PREFIX}${encodeURIComponent(artifactId)}`;
+}
+
+/**
+ * Describe an artifact as a resource (also used for resource links in tool results)
+ */
+export function toArtifactResource(artifact: WorkflowArtifact): Resource {
+  return {
+    uri: artifactUri(artifact.id),
+    name: artifact.name,
+    description: `File written by workflow run ${artifact.runId}`,
+    mimeType: artifact.mimeType,
+  };
+}
+
+function toRunResource(record: WorkflowRunRecord): Resource {
+  return {
+    uri: runUri(record.id),
+    name: `${record.workflowId} run (${record.status})`,
+    description: `Workflow run started ${new Date(record.startedAt).toISOString()}`,
+    mimeType: 'application/json',
+  };
+}
+
+/**
+ * A connected server and the resources its client subscribed to
+ */
+interface ResourceSession {
+  server: Server;
+  subscriptions: Set<string>;
+}
+
+/**
+ * Sessions to send resource notifications to
+ * One shared listener per event fans out to them, so the number of listeners
+ * on workflowRuns does not grow with the number of sessions
+ */
+const resourceSessions = new Set<ResourceSession>();
+
+workflowRuns.on('runChanged', (record: WorkflowRunRecord, created: boolean) => {
+  for (const session of visibleSessions(record)) {
+    if (created) {
+      notify(() => session.server.sendResourceListChanged());
+    }
+    notifyRunUpdated(session, record);
+  }
+});
+
+workflowRuns.on('artifactAdded', (artifact: WorkflowArtifact) => {
+  const record = workflowRuns.get(artifact.runId);
+  if (!record) return;
+
+  for (const session of visibleSessions(record)) {
+    notify(() => session.server.sendResourceListChanged());
+    notifyRunUpdated(session, record);
+  }
+});
+
+/**
+ * Register resource handlers on a server instance
+ * Clients only see runs from their own session (HTTP transport) or with none
+ * Returns a function that stops update notifications, for when the server closes
+ */
+export function registerResourceHandlers(server: Server): () => void {
+  const session: ResourceSession = { server, subscriptions: new Set() };
+  const { subscriptions } = session;
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    return {
+      resources: [
+        ...workflowRuns.list(extra.sessionId).map(toRunResource),
+        ...workflowRuns.listArtifacts(extra.sessionId).map(toArtifactResource),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${RUN_URI_PREFIX}{id}`,
+        name: 'Workflow run',
+        description: 'Inputs, completed steps, errors and outputs of a workflow run',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${ARTIFACT_URI_PREFIX}{id}`,
+        name: 'Workflow artifact',
+        description: 'A file written by a workflow run, such as generated audio',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+
+    if (uri.startsWith(RUN_URI_PREFIX)) {
+      const record = workflowRuns.get(decodeURIComponent(uri.slice(RUN_URI_PREFIX.length)));
+      if (!record || !workflowRuns.isVisible(record, extra.sessionId)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown workflow run: ${uri}`);
+      }
+
+      const { sessionId: _sessionId, artifacts, ...run } = record;
+      const body = {
+        ...run,
+        artifacts: artifacts.flatMap(id => {
+          const artifact = workflowRuns.getArtifact(id);
+          return artifact ? [{ ...toArtifactResource(artifact), path: artifact.path }] : [];
+        }),
+      };
+
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(body, null, 2) }],
+      };
+    }
+
+    if (uri.startsWith(ARTIFACT_URI_PREFIX)) {
+      const artifact = workflowRuns.getArtifact(decodeURIComponent(uri.slice(ARTIFACT_URI_PREFIX.length)));
+      const record = artifact ? workflowRuns.get(artifact.runId) : undefined;
+      if (!artifact || !record || !workflowRuns.isVisible(record, extra.sessionId)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown artifact: ${uri}`);
+      }
+
+      let data: Buffer;
+      try {
+        data = await fs.readFile(artifact.path);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Artifact ${artifact.name} is no longer available: ${(error as Error).message}`
+        );
+      }
+
+      const content = artifact.mimeType.startsWith('text/') || artifact.mimeType === 'application/json'
+        ? { text: data.toString('utf8') }
+        : { blob: data.toString('base64') };
+
+      return {
+        contents: [{ uri, mimeType: artifact.mimeType, ...content }],
+      };
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  resourceSessions.add(session);
+
+  return () => {
+    resourceSessions.delete(session);
+  };
+}
+
+function visibleSessions(record: WorkflowRunRecord): ResourceSession[] {
+  return Array.from(resourceSessions)
+    .filter(session => workflowRuns.isVisible(record, session.server.transport?.sessionId));
+}
+
+function notifyRunUpdated(session: ResourceSession, record: WorkflowRunRecord): void {
+  if (session.subscriptions.has(runUri(record.id))) {
+    notify(() => session.server.sendResourceUpdated({ uri: runUri(record.id) }));
+  }
+}
+
+/**
+ * Send a notification, ignoring clients that are not connected
+ */
+function notify(send: () => Promise<void> | void): void {
+  Promise.resolve()
+    .then(send)
+    .catch(error => logger.debug('Failed to send resource notification', { error }));
+}
@@ -0,0 +1,878 @@
+/**
+ * FuzroDo MCP server definition
+ * Registers the system tools and workflow tools on a new Server instance
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ErrorCode,
+  McpError,
+  type ProgressToken,
+  type ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Command } from '@langchain/langgraph';
+import { v4 as uuidv4 } from 'uuid';
+import { workflowRegistry } from './workflows/registry.js';
+import { mcpClientManager } from './utils/mcpClient.js';
+import {
+  workflowStateManager,
+  getMissingResumeOutputs,
+  toResumeState,
+  PersistedWorkflowState,
+} from './utils/workflowState.js';
+import { validateWorkflowRequirements, formatValidationResult } from './utils/requirements.js';
+import { resolveWorkflowInput, elicitationSender, ElicitationSender } from './utils/elicitation.js';
+import { toStructuredResult, toCompletedResult, findOutputIssues } from './utils/workflowOutput.js';
+import { FAILED_NODE } from './utils/errorRouting.js';
+import { logger } from './utils/logger.js';
+import { RequirementError, InputValidationError, WorkflowCancelledError } from './utils/errors.js';
+import { WorkflowDefinition, WorkflowContext, WorkflowStepError } from './types/workflow.js';
+import { workflowCheckpointer, threadConfig, getPendingAction } from './utils/checkpointing.js';
+import { WorkflowProgress, ProgressSender } from './utils/progress.js';
+import { workflowRuns } from './utils/runRegistry.js';
+import { selectLLM, LLMClient } from './utils/llm.js';
+import { registerResourceHandlers, toArtifactResource } from './resources.js';
+import { registerPromptHandlers } from './prompts.js';
+import { registerCompletionHandlers } from './completions.js';
+
+/**
+ * Dependencies shared by every workflow run
+ * All runs use the singleton client manager, so downstream MCP server
+ * connections are reused across runs and sessions
+ */
+const workflowContext: WorkflowContext = {
+  mcpManager: mcpClientManager,
+  logger,
+  stateManager: workflowStateManager,
+};
+
+/**
+ * Servers to notify when workflows are reloaded
+ * One shared listener fans out to them, so the number of listeners on
+ * workflowRegistry does not grow with the number of sessions
+ */
+const connectedServers = new Set<Server>();
+
+// Workflows are listed as tools and prompts, so both change when they are reloaded
+workflowRegistry.on('workflowsChanged', () => {
+  for (const server of connectedServers) {
+    Promise.all([server.sendToolListChanged(), server.sendPromptListChanged()])
+      .catch(error => logger.debug('Failed to send list changed notifications', { error }));
+  }
+});
+
+/**
+ * Create a FuzroDo MCP server with all request handlers registered
+ * One server instance is created per client session
+ */
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'fuzrodo',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { subscribe: true, listChanged: true },
+        prompts: { listChanged: true },
+        completions: {},
+      },
+    }
+  );
+
+  // Runs and artifacts as resources
+  const stopResourceNotifications = registerResourceHandlers(server);
+  registerPromptHandlers(server);
+  registerCompletionHandlers(server);
+
+  connectedServers.add(server);
+
+  // Stop notifying once the client has gone
+  server.onclose = () => {
+    stopResourceNotifications();
+    connectedServers.delete(server);
+  };
+
+  /**
+   * Handle tool listing requests
+   * Tools are dynamically generated from registered workflows
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    // Get tools from workflow registry
+    const workflowTools = workflowRegistry.toMCPTools();
+
+    // Add system tools
+    const tools = [
+      {
+        name: 'hello_world',
+        description: 'A simple test tool to verify FuzroDo is working',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Name to greet',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'resume_workflow',
+        description: 'Resume a paused workflow with the results of the action it requested, or continue a cancelled run',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            resumeToken: {
+              type: 'string',
+              description: 'Resume token returned by the paused workflow',
+            },
+            results: {
+              type: 'object',
+              description: 'Results matching the requiredOutputs of the requested action ({} for a cancelled run)',
+            },
+          },
+          required: ['resumeToken', 'results'],
+        },
+      },
+      {
+        name: 'paused_workflows',
+        description: 'List, inspect or purge stored paused and cancelled workflow runs',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['list', 'inspect', 'purge'],
+              description: 'Operation to perform',
+            },
+            resumeToken: {
+              type: 'string',
+              description: 'Resume token of the run to inspect or purge',
+            },
+            workflowId: {
+              type: 'string',
+              description: 'Only purge runs of this workflow',
+            },
+            expiredOnly: {
+              type: 'boolean',
+              description: 'Only purge runs past their expiry',
+            },
+          },
+          required: ['action'],
+        },
+      },
+      ...workflowTools,
+    ];
+
+    logger.debug(`Listing ${tools.length} tools (${workflowTools.length} workflows + 3 system tools)`);
+    return { tools };
+  });
+
+  /**
+   * Handle tool execution requests
+   * Routes to appropriate workflow based on tool name
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const { sessionId } = extra;
+    // Paused runs are scoped to the authenticated client, which outlives its sessions
+    const clientId = extra.authInfo?.clientId;
+
+    try {
+      // Handle test tool
+      if (name === 'hello_world') {
+        const { name: userName } = args as { name: string };
+        logger.info('hello_world tool called', { userName });
+
+        // Get health status of MCP servers
+        const health = await mcpClientManager.getHealthStatus();
+        const configured = mcpClientManager.getConfiguredServers();
+
+        let statusText = `Hello ${userName}! FuzroDo MCP server is running successfully.\n\n`;
+        statusText += `Configured MCP servers: ${configured.length}\n`;
+
+        if (health.length > 0) {
+          statusText += '\nMCP Server Health:\n';
+          for (const server of health) {
+            const status = server.connected ? '✅' : '❌';
+            const details = server.connected
+              ? `${server.toolCount} tools available`
+              : `${server.state ?? 'disconnected'} (${server.reconnectAttempts ?? 0} failed attempts) - Error: ${server.error}`;
+            statusText += `  ${status} ${server.name} (${server.transport}): ${details}\n`;
+          }
+        }
+
+        statusText += `\nRegistered workflows: ${workflowRegistry.count()}`;
+
+        const loadFailures = workflowRegistry.getLoadFailures();
+        if (loadFailures.length > 0) {
+          statusText += '\n\nWorkflow Load Failures:\n';
+          for (const failure of loadFailures) {
+            const kept = failure.workflows.length > 0
+              ? ` (still serving the previously loaded ${failure.workflows.join(', ')})`
+              : '';
+            statusText += `  ❌ ${failure.path}${kept}\n`;
+            const problems = failure.error.issues.length > 0 ? failure.error.issues : [failure.error.message];
+            for (const problem of problems) {
+              statusText += `     - ${problem}\n`;
+            }
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: statusText,
+            },
+          ],
+        };
+      }
+
+      // Handle resuming a paused workflow
+      if (name === 'resume_workflow') {
+        const { resumeToken, results } = (args ?? {}) as {
+          resumeToken?: string;
+          results?: Record<string, any>;
+        };
+
+        if (!resumeToken) {
+          throw new McpError(ErrorCode.InvalidParams, 'resumeToken is required');
+        }
+
+        // Claim the run so a concurrent resume with the same token is refused
+        const persisted = workflowStateManager.claim(resumeToken, clientId);
+        if (!persisted) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            workflowStateManager.isClaimed(resumeToken)
+              ? 'This workflow run is already being resumed.'
+              : 'Resume token expired or invalid. Please start the workflow again.'
+          );
+        }
+
+        let result;
+        try {
+          result = await resumeWorkflow(persisted, results ?? {}, {
+            sessionId,
+            clientId,
+            progressSend: progressSender(request.params._meta?.progressToken, extra.sendNotification),
+            signal: extra.signal,
+            llm: selectLLM(server, extra.sendRequest),
+            elicit: elicitationSender(server, extra.sendRequest),
+          });
+        } catch (error) {
+          if (error instanceof WorkflowCancelledError) {
+            // Saved again under a new token on the same thread
+            workflowStateManager.delete(resumeToken, { keepCheckpoint: true });
+          } else {
+            // The paused run is kept, so it can be resumed again, unless it
+            // was purged or expired meanwhile
+            workflowStateManager.release(resumeToken);
+            if (persisted.state.threadId && !workflowStateManager.has(resumeToken)) {
+              await workflowCheckpointer.deleteThread(persisted.state.threadId);
+            }
+          }
+          throw error;
+        }
+
+        // Finished, or paused again under a new token on the same thread
+        workflowStateManager.delete(resumeToken, { keepCheckpoint: true });
+        return toWorkflowResponse(result.workflow, result.result);
+      }
+
+      // Handle paused run management
+      if (name === 'paused_workflows') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: managePausedWorkflows((args ?? {}) as Record<string, any>, clientId),
+            },
+          ],
+        };
+      }
+
+      // Check if this is a registered workflow
+      const workflow = workflowRegistry.getTool(name);
+      if (!workflow) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}. Available workflows: ${workflowRegistry.getIds().join(', ')}`
+        );
+      }
+
+      logger.info(`Executing workflow: ${workflow.id}`, { name: workflow.name });
+
+      // Validate arguments against the input schema (applies defaults), asking
+      // the user for missing or invalid ones when the client supports elicitation
+      const elicit = elicitationSender(server, extra.sendRequest);
+      const input = await resolveWorkflowInput(workflow, args, elicit, extra.signal);
+
+      // Validate workflow requirements
+      logger.debug('Validating workflow requirements');
+      const validation = await validateWorkflowRequirements(workflow, mcpClientManager);
+
+      if (!validation.valid) {
+        const errorMessage = formatValidationResult(validation);
+        logger.error('Workflow requirements validation failed', { workflow: workflow.id });
+
+        throw new RequirementError(
+          `Workflow ${workflow.id} requirements not met:\n${errorMessage}`,
+          validation.errors,
+          workflow.id
+        );
+      }
+
+      if (validation.warnings.length > 0) {
+        logger.warn('Workflow has warnings', {
+          workflow: workflow.id,
+          warnings: validation.warnings
+        });
+      }
+
+      // Initialize workflow state with required arrays
+      const initialState = {
+        ...input,
+        currentStep: 'start',
+        completedSteps: [],
+        errors: []
+      };
+
+      logger.debug('Invoking workflow', { input });
+      const result = await runWorkflow(workflow, initialState, {
+        sessionId,
+        clientId,
+        progress: { send: progressSender(request.params._meta?.progressToken, extra.sendNotification) },
+        signal: extra.signal,
+        llm: selectLLM(server, extra.sendRequest),
+        elicit,
+      });
+
+      return toWorkflowResponse(workflow, result);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      if (error instanceof InputValidationError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          error.message,
+          { issues: error.issues }
+        );
+      }
+
+      if (error instanceof WorkflowCancelledError) {
+        // The client has gone; this only reaches clients that did not abort the request
+        throw new McpError(
+          ErrorCode.InternalError,
+          `${error.message}. Resume it with resume_workflow and token ${error.resumeToken}`
+        );
+      }
+
+      if (error instanceof RequirementError) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          error.message
+        );
+      }
+
+      logger.error('Tool execution failed', {
+        tool: name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+
+  return server;
+}
+
+interface RunWorkflowOptions {
+  sessionId?: string;
+  clientId?: string; // Authenticated client the run's resume token is scoped to
+  threadId?: string;
+  signal?: AbortSignal; // The MCP request's abort signal
+  llm?: LLMClient; // For sub-agents; client sampling or the fallback provider
+  elicit?: ElicitationSender; // Set when the client supports elicitation
+  progress?: {
+    send?: ProgressSender; // Set when the client asked for progress notifications
+    completedSteps?: number; // Steps already finished before this invocation (resumed runs)
+  };
+}
+
+/**
+ * Bind a request's progressToken to the notification sender
+ * Returns undefined when the client did not ask for progress
+ */
+function progressSender(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressSender | undefined {
+  if (progressToken === undefined) return undefined;
+
+  return progress => sendNotification({
+    method: 'notifications/progress',
+    params: { progressToken, ...progress },
+  });
+}
+
+/**
+ * Create and execute a workflow graph on a checkpointed thread
+ * If the graph pauses for an LLM action, its state is saved (scoped to the authenticated
+ * client, if any) and a resume token attached
+ */
+async function runWorkflow(
+  workflow: WorkflowDefinition,
+  input: Record<string, any> | Command | null,
+  options: RunWorkflowOptions = {}
+): Promise<any> {
+  const { sessionId, clientId, threadId = `${workflow.id}-${uuidv4()}` } = options;
+
+  logger.debug('Creating workflow graph', { threadId });
+  const graph = workflow.createGraph(workflowContext, { checkpointer: workflowCheckpointer });
+
+  // Every node except the graph's entry point and failure terminal counts as a progress step
+  const workflowProgress = options.progress?.send
+    ? new WorkflowProgress(
+        Object.keys(graph.nodes).filter(node => node !== '__start__' && node !== FAILED_NODE),
+        options.progress.send,
+        options.progress.completedSteps
+      )
+    : undefined;
+
+  const runInput = input === null || input instanceof Command
+    ? undefined
+    : omitFields(input, ['currentStep', 'completedSteps', 'errors']);
+  workflowRuns.begin(threadId, workflow.id, runInput, sessionId);
+
+  const { configurable } = threadConfig(threadId);
+  let result;
+  try {
+    result = await graph.invoke(input as any, {
+      configurable: { ...configurable, workflowProgress, llm: options.llm, elicit: options.elicit },
+      callbacks: workflowProgress ? [workflowProgress] : undefined,
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw await recordCancelledRun(workflow, graph, threadId, clientId);
+    }
+
+    // Nothing can resume a failed new run, so drop its checkpoints; a failed
+    // resume keeps them for the paused run it came from
+    if (!options.threadId) {
+      await workflowCheckpointer.deleteThread(threadId);
+    }
+    workflowRuns.update(threadId, {
+      status: 'failed',
+      errors: [{ step: 'workflow', error: error instanceof Error ? error.message : String(error) }],
+    });
+    throw error;
+  }
+
+  const pendingAction = getPendingAction(result);
+  if (pendingAction) {
+    // Paused mid-graph via interrupt() - resumed later with Command({ resume })
+    const { __interrupt__, ...values } = result;
+    result = {
+      ...values,
+      status: 'awaiting_llm_action',
+      workflowId: workflow.id,
+      runId: threadId,
+      threadId,
+      action: pendingAction,
+      message: pendingAction.description,
+    };
+    result.resumeToken = workflowStateManager.save(workflow.id, result, undefined, clientId, workflow.version);
+  } else {
+    await workflowCheckpointer.deleteThread(threadId);
+
+    if (result.status === 'awaiting_llm_action') {
+      // Graph returned a PartialWorkflowResult-shaped state and ended
+      result.runId = threadId;
+      result.workflowId = workflow.id;
+      result.resumeToken = workflowStateManager.save(workflow.id, result, undefined, clientId, workflow.version);
+    } else {
+      // Finished, or stopped at its failure terminal with what it collected so far
+      result = toCompletedResult(workflow, result, threadId);
+    }
+  }
+
+  const paused = result.status === 'awaiting_llm_action';
+  workflowRuns.update(threadId, {
+    status: paused ? 'awaiting_llm_action' : result.success ? 'completed' : 'failed',
+    completedSteps: result.completedSteps ?? [],
+    errors: result.errors ?? [],
+    output: toStructuredResult(workflow, result),
+    resumeToken: result.resumeToken,
+  });
+
+  logger.info('Workflow completed', {
+    workflow: workflow.id,
+    success: paused || result.success,
+    status: result.status,
+    hasResumeToken: !!result.resumeToken
+  });
+
+  // Debug log the actual result structure
+  logger.debug('Workflow result structure', {
+    resultKeys: Object.keys(result),
+    result: JSON.stringify(result, null, 2)
+  });
+
+  return result;
+}
+
+interface ResumeWorkflowOptions extends Omit<RunWorkflowOptions, 'threadId' | 'progress'> {
+  progressSend?: ProgressSender;
+}
+
+/**
+ * Resume a claimed paused or cancelled run with the results of the action it requested
+ * Runs resume on the version they started on; if it is no longer registered
+ * they are migrated to the latest version
+ */
+async function resumeWorkflow(
+  persisted: PersistedWorkflowState,
+  results: Record<string, any>,
+  options: ResumeWorkflowOptions
+): Promise<{ workflow: WorkflowDefinition; result: any }> {
+  const { resumeToken, state: savedState, workflowId, workflowVersion: startedOn } = persisted;
+  const workflow = workflowRegistry.get(workflowId, startedOn) ?? workflowRegistry.get(workflowId);
+
+  if (!workflow) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Resume token expired or invalid. Please start the workflow again.'
+    );
+  }
+
+  const migrateFrom = startedOn !== undefined && startedOn !== workflow.version ? startedOn : undefined;
+  if (migrateFrom && !workflow.migrateState) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Version ${migrateFrom} of ${workflow.id} is no longer available and version ${workflow.version} ` +
+      'cannot migrate its runs. Please start the workflow again.'
+    );
+  }
+
+  const missing = getMissingResumeOutputs(savedState.action, results);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required outputs for ${workflow.id}: ${missing.join(', ')}`
+    );
+  }
+
+  logger.info(`Resuming workflow: ${workflow.id}`, { resumeToken });
+
+  if (savedState.threadId && !(await workflowCheckpointer.getTuple(threadConfig(savedState.threadId)))) {
+    workflowStateManager.delete(resumeToken);
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Workflow checkpoint is no longer available (FuzroDo may have restarted). Please start the workflow again.'
+    );
+  }
+
+  const resumeState = migrateFrom ? await migrateRun(workflow, savedState, migrateFrom) : savedState;
+
+  // Checkpointed runs resume from the interrupted node (or, if cancelled, the
+  // node that was running); others re-enter the graph
+  const { progressSend, ...runOptions } = options;
+  const progress = {
+    send: progressSend,
+    completedSteps: savedState.completedSteps?.length ?? 0,
+  };
+  const result = savedState.threadId
+    ? await runWorkflow(
+        workflow,
+        savedState.status === 'cancelled' ? null : new Command({ resume: results }),
+        { ...runOptions, threadId: savedState.threadId, progress }
+      )
+    : await runWorkflow(workflow, toResumeState(resumeState, results), { ...runOptions, progress });
+
+  return { workflow, result };
+}
+
+/**
+ * List, inspect or purge stored paused runs
+ */
+function managePausedWorkflows(args: Record<string, any>, clientId?: string): string {
+  const { action, resumeToken, workflowId, expiredOnly } = args;
+
+  switch (action) {
+    case 'list': {
+      const runs = workflowStateManager.list(clientId);
+      const lines = [`Paused workflow runs (${workflowStateManager.getStoreKind()} store): ${runs.length}`];
+      runs.forEach(run => {
+        lines.push(
+          `  - ${run.resumeToken} [${run.workflowId}${run.workflowVersion ? ` v${run.workflowVersion}` : ''}] ${run.state?.status === 'cancelled' ? 'cancelled' : 'paused'}, ` +
+          `saved ${new Date(run.timestamp).toISOString()}, ` +
+          `expires ${new Date(run.expiresAt).toISOString()}`
+        );
+      });
+      return lines.join('\n');
+    }
+
+    case 'inspect': {
+      if (!resumeToken) {
+        throw new McpError(ErrorCode.InvalidParams, 'resumeToken is required to inspect a run');
+      }
+      const run = workflowStateManager.inspect(resumeToken, clientId);
+      if (!run) {
+        throw new McpError(ErrorCode.InvalidParams, `No paused run found for token: ${resumeToken}`);
+      }
+      return JSON.stringify(run, null, 2);
+    }
+
+    case 'purge': {
+      if (resumeToken) {
+        const deleted = workflowStateManager.inspect(resumeToken, clientId) !== null
+          && workflowStateManager.delete(resumeToken);
+        return deleted ? `Purged paused run ${resumeToken}` : `No paused run found for token: ${resumeToken}`;
+      }
+      const count = workflowStateManager.purge({ workflowId, expiredOnly, clientId });
+      return `Purged ${count} paused run(s)`;
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown action: ${action}. Expected list, inspect or purge`);
+  }
+}
+
+/**
+ * Build the MCP response for a workflow result: readable text plus structuredContent
+ * Failed runs, and results that do not match the output schema, are marked isError
+ */
+function toWorkflowResponse(workflow: WorkflowDefinition, result: any) {
+  const text = formatWorkflowResult(workflow, result);
+  const structuredContent = toStructuredResult(workflow, result);
+  const issues = findOutputIssues(workflow, structuredContent);
+
+  if (issues.length > 0) {
+    logger.error(`Workflow ${workflow.id} result does not match its output schema`, { issues });
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `${text}\n\n⚠️  Result does not match the output schema:\n${issues.map(issue => `  - ${issue}`).join('\n')}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text,
+      },
+      // Files the run wrote, readable as resources
+      ...workflowRuns.listArtifacts(undefined, result.runId).map(artifact => ({
+        type: 'resource_link' as const,
+        ...toArtifactResource(artifact),
+      })),
+    ],
+    structuredContent,
+    ...(structuredContent.status === 'failed' ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Save a cancelled run from its last checkpoint, so it can be inspected or resumed
+ * The checkpoint holds every node that finished; the node that was running is re-run on resume
+ */
+async function recordCancelledRun(
+  workflow: WorkflowDefinition,
+  graph: any,
+  threadId: string,
+  clientId?: string
+): Promise<WorkflowCancelledError> {
+  const { values, next } = await graph.getState(threadConfig(threadId));
+  const completedSteps: string[] = values.completedSteps ?? [];
+
+  const cancelled = {
+    ...values,
+    status: 'cancelled',
+    workflowId: workflow.id,
+    threadId,
+    message: next.length > 0 ? `Cancelled before ${next.join(', ')} finished` : 'Cancelled',
+  };
+  const resumeToken = workflowStateManager.save(workflow.id, cancelled, undefined, clientId, workflow.version);
+  workflowRuns.update(threadId, {
+    status: 'cancelled',
+    completedSteps,
+    errors: values.errors ?? [],
+    resumeToken,
+  });
+
+  logger.info(`Workflow ${workflow.id} was cancelled`, { threadId, completedSteps, resumeToken });
+
+  return new WorkflowCancelledError(
+    `Workflow ${workflow.id} was cancelled after ${completedSteps.length} step(s)`,
+    resumeToken,
+    completedSteps,
+    workflow.id
+  );
+}
+
+/**
+ * Upgrade a paused run to a newer version of its workflow with the new version's migrateState
+ * Checkpointed runs have their checkpoint updated and resume from the node they
+ * paused on, which the new version must still have; others re-enter its graph
+ * with the migrated state
+ */
+async function migrateRun(
+  workflow: WorkflowDefinition,
+  savedState: Record<string, any>,
+  fromVersion: string
+): Promise<Record<string, any>> {
+  logger.info(`Migrating ${workflow.id} run from version ${fromVersion} to ${workflow.version}`);
+
+  if (!savedState.threadId) {
+    return workflow.migrateState!(savedState, fromVersion);
+  }
+
+  const graph = workflow.createGraph(workflowContext, { checkpointer: workflowCheckpointer });
+  const config = threadConfig(savedState.threadId);
+  const { values } = await graph.getState(config);
+  const migrated = await workflow.migrateState!(values, fromVersion);
+
+  // Only write changed fields, so appending reducers do not duplicate values
+  const changed = Object.fromEntries(
+    Object.entries(migrated).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(values[key]))
+  );
+  if (Object.keys(changed).length > 0) {
+    await graph.updateState(config, changed);
+  }
+  return savedState;
+}
+
+function omitFields(value: Record<string, any>, fields: string[]): Record<string, any> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !fields.includes(key)));
+}
+
+/**
+ * Format workflow execution result for display
+ */
+function formatWorkflowResult(workflow: any, result: any): string {
+  const lines: string[] = [];
+
+  lines.push(`Workflow: ${workflow.name} (${workflow.id})`);
+  lines.push(`Version: ${workflow.version}`);
+  lines.push('');
+
+  // Handle partial workflow response (awaiting LLM action)
+  if (result.status === 'awaiting_llm_action') {
+    lines.push('⏸️  Workflow Paused - Action Required');
+    lines.push('');
+
+    if (result.completedSteps && result.completedSteps.length > 0) {
+      lines.push('✓ Completed steps:');
+      result.completedSteps.forEach((step: string) => lines.push(`  - ${step}`));
+      lines.push('');
+    }
+
+    lines.push(`📋 Required Action: ${result.action.description}`);
+    lines.push('');
+
+    if (result.action.prompt) {
+      lines.push('Instructions:');
+      lines.push(result.action.prompt);
+      lines.push('');
+    }
+
+    if (result.action.availableTools && result.action.availableTools.length > 0) {
+      lines.push(`Available Tools: ${result.action.availableTools.join(', ')}`);
+      lines.push('');
+    }
+
+    lines.push(`Required Outputs: ${result.action.requiredOutputs.join(', ')}`);
+    lines.push('');
+    lines.push(`Resume Token: ${result.resumeToken}`);
+    lines.push('');
+    lines.push('After completing the action, call resume_workflow with the resume token and results.');
+
+    return lines.join('\n');
+  }
+
+  // Handle completed workflow (a CompletedWorkflowResult)
+  if (!result.success) {
+    lines.push('❌ Workflow Failed');
+    lines.push('');
+
+    if (result.completedSteps && result.completedSteps.length > 0) {
+      lines.push('✓ Completed steps:');
+      result.completedSteps.forEach((step: string) => lines.push(`  - ${step}`));
+      lines.push('');
+    }
+
+    if (result.failedStep) {
+      lines.push(`✗ Failed at step: ${result.failedStep}`);
+    }
+
+    if (result.errors && result.errors.length > 0) {
+      lines.push('');
+      lines.push('Errors:');
+      result.errors.forEach((err: WorkflowStepError) =>
+        lines.push(`  [${err.step}] ${err.server ? `${err.server}/${err.tool} returned an error: ` : ''}${err.error}`)
+      );
+    }
+
+    lines.push('');
+    lines.push(`Error: ${result.error}`);
+
+    // What the steps before the failure produced
+    const partialResults = formatResultData(result.data);
+    if (partialResults.length > 0) {
+      lines.push('');
+      lines.push('Partial results:');
+      lines.push(...partialResults);
+    }
+  } else {
+    lines.push('✅ Workflow Completed Successfully');
+    lines.push('');
+
+    if (result.completedSteps && result.completedSteps.length > 0) {
+      lines.push('Completed steps:');
+      result.completedSteps.forEach((step: string) => lines.push(`  ✓ ${step}`));
+      lines.push('');
+    }
+
+    // Include relevant data from result
+    const results = formatResultData(result.data);
+    if (results.length > 0) {
+      lines.push('Results:');
+      lines.push(...results);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a result's data fields, one line each
+ */
+function formatResultData(data: Record<string, any> = {}): string[] {
+  return Object.entries(data).map(([key, value]) => {
+    if (typeof value === 'string') {
+      return `  ${key}: ${value}`;
+    }
+    if (Array.isArray(value)) {
+      return `  ${key}: [${value.length} items]`;
+    }
+    return `  ${key}: ${JSON.stringify(value)}`;
+  });
+}
@@ -0,0 +1,266 @@
+/**
+ * HTTP transports for the FuzroDo MCP server
+ * Serves MCP Streamable HTTP on /mcp and legacy SSE on /sse + /messages,
+ * so one shared FuzroDo instance can be reached by several clients
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string; // Bearer token required on every request when set
+}
+
+/**
+ * Handle to a running HTTP transport
+ */
+export interface HttpTransportHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Request carrying the authenticated client, read by the SDK transports into extra.authInfo
+ */
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+}
+
+/**
+ * Start serving FuzroDo over HTTP
+ * A new MCP server instance is created for each client session
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+
+    // Paused runs are kept: they belong to the client, not the session, and expire on their TTL
+    sessions.delete(sessionId);
+    await session.server.close().catch(error =>
+      logger.warn('Error closing MCP session', { sessionId, error })
+    );
+    logger.info('MCP session closed', { sessionId, activeSessions: sessions.size });
+  };
+
+  /**
+   * Streamable HTTP: POST/GET/DELETE /mcp, session tracked via mcp-session-id header
+   */
+  const handleStreamableHttp = async (req: AuthenticatedRequest, res: ServerResponse): Promise<void> => {
+    const sessionId = headerValue(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { transport, server });
+        logger.info('MCP session started', { sessionId: newSessionId, transport: 'streamable-http' });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    // The initialize request was rejected, so no session will ever close this server
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  };
+
+  /**
+   * Legacy SSE: GET /sse opens the stream, POST /messages?sessionId=... sends requests
+   */
+  const handleSseStream = async (_req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const server = createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { transport, server });
+    logger.info('MCP session started', { sessionId: transport.sessionId, transport: 'sse' });
+
+    res.on('close', () => {
+      void closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: AuthenticatedRequest, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sessions.get(sessionId);
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req: AuthenticatedRequest, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    try {
+      if (!isAuthorized(req, options.authToken)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+        return;
+      }
+      if (options.authToken) {
+        req.auth = toAuthInfo(options.authToken);
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseStream(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404).end('Not Found');
+      }
+    } catch (error) {
+      logger.error('HTTP request failed', {
+        method: req.method,
+        path: url.pathname,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof HttpBodyError ? error.status : 500, (error as Error).message);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  const url = `http://${options.host}:${options.port}`;
+  logger.info(`FuzroDo MCP server listening on ${url} (Streamable HTTP: /mcp, SSE: /sse)`, {
+    auth: options.authToken ? 'bearer' : 'none'
+  });
+
+  return {
+    url,
+    close: async () => {
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Error reading a request body, carrying the HTTP status to respond with
+ */
+class HttpBodyError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'HttpBodyError';
+    Object.setPrototypeOf(this, HttpBodyError.prototype);
+  }
+}
+
+/**
+ * Check the bearer token, if one is configured
+ */
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) return true;
+
+  const header = headerValue(req, 'authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const provided = Buffer.from(match[1]);
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Identify the client by its bearer token, so its paused runs can be resumed
+ * from any later session; the client ID is a hash, so the token is never stored
+ */
+function toAuthInfo(token: string): AuthInfo {
+  return {
+    token,
+    clientId: createHash('sha256').update(token).digest('hex').slice(0, 16),
+    scopes: [],
+  };
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpBodyError('Request body too large', 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  if (size === 0) return undefined;
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpBodyError('Invalid JSON body', 400);
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
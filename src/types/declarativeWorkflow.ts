@@ -0,0 +1,101 @@
+/**
+ * Declarative workflow format
+ * Workflows written as YAML/JSON files instead of state/config/workflow
+ * modules; compiled into a LangGraph StateGraph when loaded
+ */
+
+import { JSONSchema, LLMAction, WorkflowPrompt, WorkflowRequirements } from './workflow';
+
+/**
+ * Where a value mapped into state comes from
+ * - text: the text of a tool result or LLM reply
+ * - json / json.<path>: the JSON of a tool result or LLM reply (or an LLM
+ *   action's results), optionally a field within it
+ */
+export type OutputSelector = string;
+
+/**
+ * Maps a node's result into state fields
+ * A single field name is shorthand for { <field>: text }
+ */
+export type OutputMapping = string | Record<string, OutputSelector>;
+
+interface BaseNode {
+  description?: string;
+  output?: OutputMapping;
+  set?: Record<string, unknown>; // Fixed (or templated) values written to state once the node succeeds
+}
+
+/**
+ * Call a tool on a downstream MCP server
+ * String values in args are templates: {{field}} is replaced with the state
+ * field, and a value that is only "{{field}}" keeps the field's type
+ */
+export interface ToolNode extends BaseNode {
+  type: 'tool';
+  server: string;
+  tool: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Ask the LLM (client sampling or the fallback provider)
+ */
+export interface LLMNode extends BaseNode {
+  type: 'llm';
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Pause until the LLM has performed an action and resumed the run
+ * Without an output mapping, each required output is copied to the state
+ * field of the same name
+ */
+export interface LLMActionNode extends BaseNode {
+  type: 'llm_action';
+  action: LLMAction;
+}
+
+export type DeclarativeNode = ToolNode | LLMNode | LLMActionNode;
+
+/**
+ * A test on one state field; the fields set are all checked
+ */
+export interface EdgeCondition {
+  field: string;
+  exists?: boolean;
+  equals?: unknown;
+  notEquals?: unknown;
+  matches?: string; // Regular expression, tested against the field as a string
+}
+
+/**
+ * Edge out of a node: either always to `to`, or to the first branch whose
+ * condition holds (else `default`). `end` finishes the run
+ * Edges are not followed when the node fails: the run goes to the
+ * workflow's onError node, or stops
+ */
+export interface DeclarativeEdge {
+  from: string;
+  to?: string;
+  branches?: Array<{ when: EdgeCondition; to: string }>;
+  default?: string;
+}
+
+export interface DeclarativeWorkflow {
+  id: string;
+  name: string;
+  description: string;
+  version: string; // Defaults to 1.0.0
+  requirements?: WorkflowRequirements;
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;
+  prompt?: WorkflowPrompt;
+  start: string;
+  onError?: string; // Node to run when a step fails (once per run) instead of stopping
+  nodes: Record<string, DeclarativeNode>;
+  edges: DeclarativeEdge[];
+}
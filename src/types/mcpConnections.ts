@@ -3,15 +3,102 @@
  */
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
 
 /**
- * Configuration for connecting to an MCP server
+ * Timeout and retry policy for tool calls
+ * Resolved from defaults, then the server, then the tool, then the individual call
+ */
+export interface MCPCallPolicy {
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after a transient failure
+  retryBaseDelayMs?: number; // Doubled on each retry, with jitter
+  idempotent?: boolean; // Only idempotent tools are retried once the call was sent
+}
+
+/**
+ * Options for a single tool call that are not part of its policy
+ */
+export interface MCPCallOptions {
+  onProgress?: (progress: Progress) => void; // Progress notifications sent by the tool
+  signal?: AbortSignal; // Aborting cancels the call on the server too
+}
+
+/**
+ * Circuit breaker settings for a server
  */
-export interface MCPServerConfig {
+export interface MCPCircuitBreakerPolicy {
+  failureThreshold: number; // Failures within the window that open the circuit
+  windowMs: number;
+  cooldownMs: number; // Time the circuit stays open before a trial call
+}
+
+/**
+ * Settings shared by every MCP server configuration
+ */
+interface MCPServerConfigBase {
   name: string;
+  timeout?: number; // Request timeout in milliseconds
+  disabled?: boolean;
+  callPolicy?: MCPCallPolicy;
+  tools?: Record<string, MCPCallPolicy>; // Per-tool overrides of callPolicy
+  circuitBreaker?: Partial<MCPCircuitBreakerPolicy>;
+}
+
+/**
+ * Configuration for an MCP server spawned as a child process
+ */
+export interface MCPStdioServerConfig extends MCPServerConfigBase {
   transport: 'stdio';
   command: string;
   args: string[];
+  cwd?: string;
+  env?: Record<string, string>; // Added to the default child process environment
+}
+
+/**
+ * Configuration for a remote or long-running MCP server reached over HTTP
+ * 'http' uses Streamable HTTP, 'sse' the legacy HTTP+SSE transport
+ */
+export interface MCPHttpServerConfig extends MCPServerConfigBase {
+  transport: 'http' | 'sse';
+  url: string;
+  headers?: Record<string, string>;
+  authToken?: string; // Sent as a bearer token in the Authorization header
+}
+
+/**
+ * Configuration for connecting to an MCP server
+ */
+export type MCPServerConfig = MCPStdioServerConfig | MCPHttpServerConfig;
+
+/**
+ * Lifecycle state of a downstream MCP server connection
+ * - connecting: a connection attempt is in progress
+ * - connected: the connection is open and usable
+ * - disconnected: the connection closed or crashed; reconnects on next use
+ * - failed: reconnection gave up after the maximum number of attempts
+ */
+export type MCPConnectionState = 'connecting' | 'connected' | 'disconnected' | 'failed';
+
+/**
+ * Emitted by MCPClientManager whenever a server's connection state changes
+ */
+export interface MCPConnectionStateChange {
+  server: string;
+  previous: MCPConnectionState | undefined;
+  state: MCPConnectionState;
+  error?: string;
+  reconnectAttempts: number;
+}
+
+/**
+ * Reconnection policy for downstream MCP servers
+ */
+export interface MCPReconnectPolicy {
+  maxAttempts: number; // Consecutive failed attempts before giving up
+  baseDelayMs: number; // Delay after the first failure, doubled on each further failure
+  maxDelayMs: number;
 }
 
 /**
@@ -21,6 +108,7 @@ export interface MCPConnection {
   config: MCPServerConfig;
   client: Client;
   connected: boolean;
+  closing?: boolean; // Set while FuzroDo closes the connection itself
   tools?: Array<{
     name: string;
     description?: string;
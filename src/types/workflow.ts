@@ -2,6 +2,11 @@
  * Core workflow type definitions
  */
 
+import type { BaseCheckpointSaver } from '@langchain/langgraph';
+import type { MCPClientManager } from '../utils/mcpClient';
+import type { Logger } from '../utils/logger';
+import type { WorkflowStateManager } from '../utils/workflowState';
+
 /**
  * JSON Schema type for tool inputs/outputs
  */
@@ -24,6 +29,57 @@ export interface WorkflowRequirements {
   environment?: string[];
 }
 
+/**
+ * Shared dependencies injected into every workflow graph
+ * Workflows must use these rather than creating their own, so MCP server
+ * connections are pooled across runs and shut down with the server
+ */
+export interface WorkflowContext {
+  mcpManager: MCPClientManager;
+  logger: Logger;
+  stateManager: WorkflowStateManager;
+}
+
+/**
+ * Options passed to a workflow's createGraph
+ */
+export interface CreateGraphOptions {
+  /**
+   * Checkpointer to compile the graph with, required for nodes that pause via interrupt()
+   */
+  checkpointer?: BaseCheckpointSaver;
+}
+
+/**
+ * Playbook published as an MCP prompt for a workflow
+ * Prompt arguments are generated from inputSchema; {{name}} placeholders in
+ * instructions are replaced with their values
+ */
+export interface WorkflowPrompt {
+  description?: string; // Defaults to the workflow description
+  instructions: string;
+}
+
+/**
+ * Suggests values for one workflow argument (MCP completion/complete)
+ * Receives the partial value typed so far and returns matching values
+ */
+export type CompletionProvider = (value: string, context: CompletionContext) => Promise<string[]>;
+
+export interface CompletionContext {
+  arguments: Record<string, string>; // Arguments the user has already filled in
+  mcpManager: MCPClientManager;
+}
+
+/**
+ * Upgrades a paused run's state from an older version of a workflow
+ * Returns the state to resume with; fromVersion is the version the run started on
+ */
+export type StateMigration = (
+  state: Record<string, any>,
+  fromVersion: string
+) => Record<string, any> | Promise<Record<string, any>>;
+
 /**
  * Complete workflow definition
  * Note: We use `any` for CompiledStateGraph because LangGraph v1.0+'s
@@ -34,11 +90,25 @@ export interface WorkflowDefinition {
   id: string;
   name: string;
   description: string;
-  version: string;
+  version: string; // Several versions of a workflow can be registered; its ID names the latest
   requirements: WorkflowRequirements;
   inputSchema: JSONSchema;
   outputSchema?: JSONSchema;
-  createGraph: () => any; // Returns CompiledStateGraph but with flexible typing
+  prompt?: WorkflowPrompt; // Published as an MCP prompt when set
+  completions?: Record<string, CompletionProvider>; // Argument completion, keyed by inputSchema property
+  migrateState?: StateMigration; // Lets runs paused on a version that is no longer registered resume on this one
+  createGraph: (context: WorkflowContext, options?: CreateGraphOptions) => any; // Returns CompiledStateGraph but with flexible typing
+}
+
+/**
+ * Error recorded by a workflow step
+ * server and tool are set when the error came from a downstream MCP tool
+ */
+export interface WorkflowStepError {
+  step: string;
+  error: string;
+  server?: string;
+  tool?: string;
 }
 
 /**
@@ -67,19 +137,19 @@ export interface PartialWorkflowResult {
 
 /**
  * Completed workflow response
+ * A run that stopped at a failed step has success false, and data holds the
+ * fields collected before it failed
  */
 export interface CompletedWorkflowResult<T = any> {
   status: 'completed';
   success: boolean;
   workflowId: string;
+  runId?: string;
   completedSteps: string[];
   failedStep?: string;
   data?: T;
   error?: string;
-  errors?: Array<{
-    step: string;
-    error: string;
-  }>;
+  errors?: WorkflowStepError[];
 }
 
 /**
@@ -97,8 +167,6 @@ export interface BaseWorkflowState {
   currentStep: string;
   completedSteps: string[];
   error?: string;
-  errors: Array<{
-    step: string;
-    error: string;
-  }>;
+  errors: WorkflowStepError[];
+  failedStep?: string; // Set when the graph stops at its failure terminal
 }
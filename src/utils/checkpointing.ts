@@ -0,0 +1,209 @@
+/**
+ * LangGraph checkpointing support
+ * Lets workflow nodes pause mid-graph with interrupt() and resume from the same node
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemorySaver, interrupt, type Checkpoint, type CheckpointMetadata } from '@langchain/langgraph';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { LLMAction } from '../types/workflow.js';
+import { workflowStateDirFromEnv } from './stateStore.js';
+import { logger } from './logger.js';
+
+type PendingWrites = Parameters<MemorySaver['putWrites']>[1];
+
+/**
+ * On-disk form of one thread's checkpoints and pending writes (bytes base64 encoded)
+ */
+interface PersistedThread {
+  threadId: string;
+  storage: Record<string, Record<string, [string, string, string | undefined]>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+/**
+ * File checkpointer - one JSON file per thread, used with the file state store
+ * Threads are read from disk the first time they are used and written back
+ * after every checkpoint, so paused runs can be resumed after a restart
+ */
+export class FileCheckpointer extends MemorySaver {
+  private readonly loaded = new Set<string>();
+
+  constructor(private readonly directory: string) {
+    super();
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async getTuple(config: RunnableConfig) {
+    this.loadThread(config.configurable?.thread_id);
+    return super.getTuple(config);
+  }
+
+  async *list(config: RunnableConfig, options?: Parameters<MemorySaver['list']>[1]) {
+    const threadId = config.configurable?.thread_id;
+    if (threadId) {
+      this.loadThread(threadId);
+    } else {
+      this.loadAllThreads();
+    }
+    yield* super.list(config, options);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata) {
+    const threadId = config.configurable?.thread_id;
+    this.loadThread(threadId);
+    const saved = await super.put(config, checkpoint, metadata);
+    this.saveThread(threadId);
+    return saved;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrites, taskId: string) {
+    const threadId = config.configurable?.thread_id;
+    this.loadThread(threadId);
+    await super.putWrites(config, writes, taskId);
+    this.saveThread(threadId);
+  }
+
+  async deleteThread(threadId: string) {
+    await super.deleteThread(threadId);
+    this.loaded.delete(threadId);
+
+    try {
+      fs.unlinkSync(this.filePath(threadId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  private loadThread(threadId: string | undefined): void {
+    if (threadId === undefined || this.loaded.has(threadId)) return;
+    this.loaded.add(threadId);
+
+    let persisted: PersistedThread;
+    try {
+      persisted = JSON.parse(fs.readFileSync(this.filePath(threadId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Ignoring unreadable checkpoint file', { threadId, error });
+      }
+      return;
+    }
+
+    this.storage[threadId] = mapEntries(persisted.storage, checkpoints =>
+      mapEntries(checkpoints, ([checkpoint, metadata, parentId]) => [fromBase64(checkpoint), fromBase64(metadata), parentId])
+    );
+    for (const [key, writes] of Object.entries(persisted.writes)) {
+      this.writes[key] = mapEntries(writes, ([taskId, channel, value]) => [taskId, channel, fromBase64(value)]);
+    }
+  }
+
+  private loadAllThreads(): void {
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const { threadId } = JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8')) as PersistedThread;
+        this.loadThread(threadId);
+      } catch (error) {
+        logger.warn('Ignoring unreadable checkpoint file', { file, error });
+      }
+    }
+  }
+
+  /**
+   * Write a thread to disk via a temp file, like FileStateStore
+   */
+  private saveThread(threadId: string | undefined): void {
+    if (threadId === undefined) return;
+
+    const persisted: PersistedThread = {
+      threadId,
+      storage: mapEntries(this.storage[threadId] ?? {}, checkpoints =>
+        mapEntries(checkpoints, ([checkpoint, metadata, parentId]) => [toBase64(checkpoint), toBase64(metadata), parentId])
+      ),
+      writes: {},
+    };
+    for (const [key, writes] of Object.entries(this.writes)) {
+      if (JSON.parse(key)[0] === threadId) {
+        persisted.writes[key] = mapEntries(writes, ([taskId, channel, value]) => [taskId, channel, toBase64(value)]);
+      }
+    }
+
+    const filePath = this.filePath(threadId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(persisted), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private filePath(threadId: string): string {
+    const safeName = threadId.replace(/[^A-Za-z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeName}.json`);
+  }
+}
+
+function mapEntries<T, U>(record: Record<string, T>, map: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value)]));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64');
+}
+
+function fromBase64(encoded: string): Uint8Array {
+  return new Uint8Array(Buffer.from(encoded, 'base64'));
+}
+
+/**
+ * Create the checkpointer matching the state store selected in the environment
+ * With WORKFLOW_STATE_STORE=file checkpoints are kept next to the paused runs
+ * (WORKFLOW_STATE_DIR/checkpoints), otherwise in process memory
+ */
+export function createCheckpointerFromEnv(): MemorySaver {
+  if ((process.env.WORKFLOW_STATE_STORE || 'memory').toLowerCase() === 'file') {
+    const directory = path.join(workflowStateDirFromEnv(), 'checkpoints');
+    logger.info('Using file workflow checkpointer', { directory });
+    return new FileCheckpointer(directory);
+  }
+
+  return new MemorySaver();
+}
+
+/**
+ * Shared checkpointer for all workflow graphs, keyed by thread id
+ * The resume token stored by WorkflowStateManager records which thread a
+ * paused run belongs to
+ */
+export const workflowCheckpointer = createCheckpointerFromEnv();
+
+/**
+ * Build the LangGraph run config for a workflow thread
+ */
+export function threadConfig(threadId: string): { configurable: { thread_id: string } } {
+  return { configurable: { thread_id: threadId } };
+}
+
+/**
+ * Pause the graph and ask Claude to perform an action
+ * Call from inside a node; returns the results passed to resume_workflow
+ * once the run is resumed. The node re-runs from the top on resume, so
+ * do any side effects in an earlier node.
+ */
+export function requestLLMAction<T extends Record<string, any> = Record<string, any>>(
+  action: LLMAction
+): T {
+  return interrupt<LLMAction, T>(action);
+}
+
+/**
+ * Get the action a paused graph is waiting on, if it was interrupted
+ */
+export function getPendingAction(result: any): LLMAction | undefined {
+  const interrupts = result?.__interrupt__;
+  if (Array.isArray(interrupts) && interrupts.length > 0) {
+    return interrupts[0].value as LLMAction;
+  }
+  return undefined;
+}
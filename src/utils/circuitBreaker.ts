@@ -0,0 +1,108 @@
+/**
+ * Circuit breaker for downstream MCP servers
+ * Fails calls fast once a server keeps failing, instead of letting every
+ * workflow wait on it
+ */
+
+import { MCPCircuitBreakerPolicy } from '../types/mcpConnections';
+import { logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+  private failures: number[] = [];
+  private state: CircuitState = 'closed';
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly policy: MCPCircuitBreakerPolicy
+  ) {}
+
+  /**
+   * Check whether a call may go ahead
+   * After the cooldown one trial call is let through (half-open)
+   */
+  allowRequest(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.policy.cooldownMs) {
+        return false;
+      }
+      this.transition('half-open');
+    }
+
+    if (this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.failures = [];
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * Record a call the caller cancelled - it says nothing about the server
+   */
+  recordCancelled(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call, opening the circuit once the threshold is reached
+   */
+  recordFailure(): void {
+    const now = Date.now();
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open') {
+      this.open(now);
+      return;
+    }
+
+    this.failures = this.failures.filter(time => now - time < this.policy.windowMs);
+    this.failures.push(now);
+
+    if (this.failures.length >= this.policy.failureThreshold) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * Time at which an open circuit allows a trial call
+   */
+  getRetryAt(): number {
+    return this.openedAt + this.policy.cooldownMs;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private open(now: number): void {
+    this.openedAt = now;
+    this.failures = [];
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+
+    const message = `Circuit breaker for ${this.name}: ${previous} -> ${state}`;
+    if (state === 'open') {
+      logger.warn(message, { cooldownMs: this.policy.cooldownMs });
+    } else {
+      logger.info(message);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Argument completion providers
+ * Building blocks for the completion providers workflows declare per field:
+ * fixed lists, cached lookups and values fetched from MCP tools
+ */
+
+import { CompletionContext, CompletionProvider } from '../types/workflow';
+import { ToolResult } from './toolResult';
+import { logger } from './logger';
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Values starting with the typed prefix (case-insensitive), without duplicates
+ */
+export function matchPrefix(values: string[], prefix: string): string[] {
+  const lower = prefix.toLowerCase();
+  return [...new Set(values)].filter(value => value.toLowerCase().startsWith(lower));
+}
+
+/**
+ * Complete from a fixed list, or one computed on each request
+ */
+export function listCompletion(values: string[] | (() => string[])): CompletionProvider {
+  return async prefix => matchPrefix(typeof values === 'function' ? values() : values, prefix);
+}
+
+/**
+ * Complete from a comma-separated list in an environment variable
+ */
+export function envListCompletion(name: string): CompletionProvider {
+  return listCompletion(() =>
+    (process.env[name] ?? '').split(',').map(value => value.trim()).filter(Boolean)
+  );
+}
+
+/**
+ * Complete from values loaded on demand and cached for ttlMs
+ * Concurrent requests share one load; failed loads are not cached and
+ * complete to nothing
+ */
+export function cachedCompletion(
+  load: (context: CompletionContext) => Promise<string[]>,
+  ttlMs = DEFAULT_CACHE_TTL_MS
+): CompletionProvider {
+  let cached: { values: string[]; expiresAt: number } | undefined;
+  let loading: Promise<string[]> | undefined;
+
+  return async (prefix, context) => {
+    if (!cached || cached.expiresAt <= Date.now()) {
+      loading ??= load(context).finally(() => {
+        loading = undefined;
+      });
+
+      try {
+        cached = { values: await loading, expiresAt: Date.now() + ttlMs };
+      } catch (error) {
+        logger.debug('Failed to load completion values', { error });
+        return [];
+      }
+    }
+
+    return matchPrefix(cached.values, prefix);
+  };
+}
+
+/**
+ * Complete from the result of a downstream MCP tool (cached)
+ */
+export function toolCompletion(options: {
+  server: string;
+  tool: string;
+  args?: Record<string, unknown>;
+  extract: (result: ToolResult) => string[];
+  ttlMs?: number;
+}): CompletionProvider {
+  return cachedCompletion(async ({ mcpManager }) => {
+    const result = await mcpManager.callToolResult(options.server, options.tool, options.args ?? {});
+    return options.extract(result);
+  }, options.ttlMs);
+}
@@ -0,0 +1,189 @@
+/**
+ * Workflow elicitation
+ * Asks the user, through the client's elicitation/create, for workflow
+ * arguments that are missing or invalid, and lets nodes ask for input mid-run
+ */
+
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ElicitResultSchema,
+  type ElicitRequest,
+  type ElicitResult,
+  type PrimitiveSchemaDefinition,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { JSONSchema, WorkflowDefinition } from '../types/workflow';
+import { InputValidationError } from './errors';
+import { validateWorkflowInput } from './schemaValidation';
+import { logger } from './logger';
+import { envNumber } from './env';
+
+export type ElicitationSchema = ElicitRequest['params']['requestedSchema'];
+
+/**
+ * Sends one elicitation request to the client
+ */
+export type ElicitationSender = (
+  params: ElicitRequest['params'],
+  signal?: AbortSignal
+) => Promise<ElicitResult>;
+
+// The user has to read and answer the request
+const ELICITATION_TIMEOUT_MS = envNumber('FUZRODO_ELICITATION_TIMEOUT_MS') ?? 600000;
+
+// Stop asking if the user keeps giving invalid answers
+const MAX_INPUT_ROUNDS = 3;
+
+// String formats elicitation schemas allow
+const ELICITATION_FORMATS = ['email', 'uri', 'date', 'date-time'];
+
+type SendRequest = RequestHandlerExtra<ServerRequest, ServerNotification>['sendRequest'];
+
+/**
+ * Bind elicitation to the tool call that started a run
+ * Returns undefined when the client does not support elicitation
+ */
+export function elicitationSender(server: Server, sendRequest: SendRequest): ElicitationSender | undefined {
+  if (!server.getClientCapabilities()?.elicitation) return undefined;
+
+  return (params, signal) => sendRequest(
+    { method: 'elicitation/create', params },
+    ElicitResultSchema,
+    { signal, timeout: ELICITATION_TIMEOUT_MS }
+  );
+}
+
+/**
+ * Validate workflow arguments, asking the user for any that are missing or invalid
+ * Returns the arguments with defaults applied. Throws the InputValidationError
+ * when the client cannot elicit, a field cannot be asked for, or the user
+ * declines
+ */
+export async function resolveWorkflowInput(
+  workflow: WorkflowDefinition,
+  args: Record<string, unknown> | undefined,
+  elicit?: ElicitationSender,
+  signal?: AbortSignal
+): Promise<Record<string, unknown>> {
+  let current = { ...(args ?? {}) };
+
+  for (let round = 1; ; round++) {
+    try {
+      return validateWorkflowInput(workflow, current);
+    } catch (error) {
+      if (!(error instanceof InputValidationError) || !elicit || round > MAX_INPUT_ROUNDS) {
+        throw error;
+      }
+
+      const requestedSchema = toElicitationSchema(workflow.inputSchema, error, current);
+      if (!requestedSchema) {
+        throw error;
+      }
+
+      logger.info(`Asking the user for arguments to ${workflow.id}`, { fields: error.fields, round });
+      const result = await elicit({
+        message: `${workflow.name} needs more information:\n${error.issues.map(issue => `  - ${issue}`).join('\n')}`,
+        requestedSchema,
+      }, signal);
+
+      if (result.action !== 'accept' || !result.content) {
+        throw new InputValidationError(
+          `${error.message}\n(The user ${result.action === 'decline' ? 'declined' : 'dismissed'} the request for these arguments)`,
+          error.issues,
+          workflow.id,
+          error.fields
+        );
+      }
+
+      current = { ...current, ...result.content };
+    }
+  }
+}
+
+/**
+ * Ask the user for input from inside a node
+ * Returns undefined when the client cannot elicit, so the node can carry on without
+ */
+export async function elicitInput(
+  config: LangGraphRunnableConfig | undefined,
+  message: string,
+  requestedSchema: ElicitationSchema
+): Promise<ElicitResult | undefined> {
+  const elicit = config?.configurable?.elicit as ElicitationSender | undefined;
+  if (!elicit) return undefined;
+
+  return elicit({ message, requestedSchema }, config?.signal);
+}
+
+/**
+ * Build an elicitation schema for the arguments at fault
+ * Returns undefined if any of them cannot be asked for (elicitation only
+ * supports flat objects of primitive fields)
+ */
+function toElicitationSchema(
+  schema: JSONSchema,
+  error: InputValidationError,
+  args: Record<string, unknown>
+): ElicitationSchema | undefined {
+  const properties: Record<string, PrimitiveSchemaDefinition> = {};
+
+  for (const field of error.fields) {
+    const property = field ? schema.properties?.[field] : undefined;
+    const problems = error.issues
+      .filter(issue => issue.startsWith(`${field}:`) || issue.startsWith(`${field}.`))
+      .map(issue => issue.slice(issue.indexOf(':') + 1).trim());
+    const primitive = property && toPrimitiveSchema(field, property, problems, args[field]);
+
+    if (!primitive) return undefined;
+    properties[field] = primitive;
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: error.fields.filter(field => schema.required?.includes(field)),
+  };
+}
+
+function toPrimitiveSchema(
+  field: string,
+  property: JSONSchema,
+  problems: string[],
+  value: unknown
+): PrimitiveSchemaDefinition | undefined {
+  const title = property.title ?? field;
+  const description = [
+    property.description,
+    value !== undefined ? `Was ${JSON.stringify(value)}: ${problems.join('; ')}` : undefined,
+  ].filter(Boolean).join('. ') || undefined;
+
+  switch (property.type) {
+    case 'string':
+      if (Array.isArray(property.enum)) {
+        return { type: 'string', title, description, enum: property.enum };
+      }
+      return {
+        type: 'string',
+        title,
+        description,
+        minLength: property.minLength,
+        maxLength: property.maxLength,
+        format: ELICITATION_FORMATS.includes(property.format) ? property.format : undefined,
+      };
+    case 'number':
+    case 'integer':
+      return { type: property.type, title, description, minimum: property.minimum, maximum: property.maximum };
+    case 'boolean':
+      return {
+        type: 'boolean',
+        title,
+        description,
+        default: typeof property.default === 'boolean' ? property.default : undefined,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Environment variable helpers
+ */
+
+/**
+ * Read a numeric environment variable
+ * Returns undefined when it is unset or not a number, so 0 is kept
+ */
+export function envNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+
+  const value = Number(raw);
+  return Number.isNaN(value) ? undefined : value;
+}
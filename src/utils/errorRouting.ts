@@ -0,0 +1,45 @@
+/**
+ * Error-aware routing
+ * Nodes record failures on the state (currentStep 'error') rather than
+ * throwing, so edges check for them and send the graph to a failure
+ * terminal, or a handler node, instead of running the next step
+ */
+
+import { WorkflowStepError } from '../types/workflow';
+import { logger } from './logger';
+
+/**
+ * Failure terminal node; add it to the graph with an edge to END
+ */
+export const FAILED_NODE = 'workflowFailed';
+
+interface FailureState {
+  currentStep?: string;
+  errors?: WorkflowStepError[];
+}
+
+/**
+ * Check whether the node that just ran recorded an error
+ */
+export function hasFailed(state: FailureState): boolean {
+  return state.currentStep === 'error';
+}
+
+/**
+ * Route to next, or to the failure terminal (or handler) if the node that
+ * just ran failed
+ * e.g. .addConditionalEdges('generateAudio', unlessFailed('downloadAudio'))
+ */
+export function unlessFailed(next: string, handler: string = FAILED_NODE): (state: FailureState) => string {
+  return state => (hasFailed(state) ? handler : next);
+}
+
+/**
+ * Failure terminal: records the step that failed and ends the run
+ */
+export function workflowFailedNode(state: FailureState): { failedStep?: string } {
+  const failedStep = state.errors?.[state.errors.length - 1]?.step;
+  logger.warn(`Stopping workflow: step ${failedStep ?? 'unknown'} failed`);
+
+  return { failedStep };
+}
@@ -32,6 +32,56 @@ export class RequirementError extends WorkflowError {
   }
 }
 
+/**
+ * Error thrown when workflow arguments do not match the workflow's inputSchema
+ */
+export class InputValidationError extends WorkflowError {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    workflowId?: string,
+    public readonly fields: string[] = [] // Top-level arguments at fault
+  ) {
+    super(message, workflowId);
+    this.name = 'InputValidationError';
+    Object.setPrototypeOf(this, InputValidationError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the client cancels a workflow run
+ * The run is saved so it can be inspected or resumed with resumeToken
+ */
+export class WorkflowCancelledError extends WorkflowError {
+  constructor(
+    message: string,
+    public readonly resumeToken: string,
+    public readonly completedSteps: string[],
+    workflowId?: string
+  ) {
+    super(message, workflowId);
+    this.name = 'WorkflowCancelledError';
+    Object.setPrototypeOf(this, WorkflowCancelledError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a declarative workflow file cannot be loaded
+ * issues lists every problem found in the file
+ */
+export class WorkflowDefinitionError extends WorkflowError {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly issues: string[] = [],
+    workflowId?: string
+  ) {
+    super(message, workflowId);
+    this.name = 'WorkflowDefinitionError';
+    Object.setPrototypeOf(this, WorkflowDefinitionError.prototype);
+  }
+}
+
 /**
  * Error thrown when an individual workflow node fails
  */
@@ -80,3 +130,95 @@ export class MCPClientError extends Error {
     Object.setPrototypeOf(this, MCPClientError.prototype);
   }
 }
+
+/**
+ * Error thrown when a tool call completes but the tool reports a failure
+ * (the result has isError: true)
+ */
+export class MCPToolResultError extends MCPClientError {
+  constructor(
+    message: string,
+    serverName: string,
+    toolName: string,
+    public readonly errorText: string,
+    public readonly result?: any
+  ) {
+    super(message, serverName, toolName);
+    this.name = 'MCPToolResultError';
+    Object.setPrototypeOf(this, MCPToolResultError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a tool call exceeds its timeout
+ */
+export class MCPTimeoutError extends MCPClientError {
+  constructor(
+    message: string,
+    serverName: string,
+    toolName: string,
+    public readonly timeoutMs: number,
+    cause?: Error
+  ) {
+    super(message, serverName, toolName, cause);
+    this.name = 'MCPTimeoutError';
+    Object.setPrototypeOf(this, MCPTimeoutError.prototype);
+  }
+}
+
+/**
+ * Error thrown without calling the server because its circuit breaker is open
+ */
+export class CircuitOpenError extends MCPClientError {
+  constructor(
+    message: string,
+    serverName: string,
+    toolName: string | undefined,
+    public readonly retryAt: number
+  ) {
+    super(message, serverName, toolName);
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a tool result does not have the content a node expected
+ */
+export class MCPResultFormatError extends MCPClientError {
+  constructor(
+    message: string,
+    serverName: string,
+    toolName: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message, serverName, toolName);
+    this.name = 'MCPResultFormatError';
+    Object.setPrototypeOf(this, MCPResultFormatError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a configuration file is missing required settings or invalid
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly configPath: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+    Object.setPrototypeOf(this, ConfigError.prototype);
+  }
+}
+
+/**
+ * Get the server, tool and error text of a failed tool result, for recording on a workflow step
+ */
+export function toolErrorDetails(error: unknown): { server?: string; tool?: string; error?: string } {
+  if (error instanceof MCPToolResultError) {
+    return { server: error.serverName, tool: error.toolName, error: error.errorText };
+  }
+  return {};
+}
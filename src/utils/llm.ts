@@ -0,0 +1,143 @@
+/**
+ * LLM access for sub-agents
+ * Sub-agents ask the connected client's model through MCP sampling when the
+ * client supports it, and fall back to a configured provider otherwise
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CreateMessageResultSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger';
+import { envNumber } from './env';
+
+/**
+ * A single-turn request from a sub-agent
+ */
+export interface LLMRequest {
+  systemPrompt?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMClient {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+const DEFAULT_MAX_TOKENS = 1000;
+
+// Sampling may wait on the user approving the request in the client
+const SAMPLING_TIMEOUT_MS = envNumber('FUZRODO_SAMPLING_TIMEOUT_MS') ?? 300000;
+
+type SendRequest = RequestHandlerExtra<ServerRequest, ServerNotification>['sendRequest'];
+
+/**
+ * Asks the connected client's model via sampling/createMessage
+ * Requests are sent as part of the tool call that started the run, so HTTP
+ * clients receive them on that call's stream
+ */
+export class SamplingLLMClient implements LLMClient {
+  readonly name = 'sampling';
+
+  constructor(private readonly sendRequest: SendRequest) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    const result = await this.sendRequest(
+      {
+        method: 'sampling/createMessage',
+        params: {
+          messages: [{ role: 'user', content: { type: 'text', text: request.prompt } }],
+          systemPrompt: request.systemPrompt,
+          temperature: request.temperature,
+          maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          includeContext: 'none',
+        },
+      },
+      CreateMessageResultSchema,
+      { signal: request.signal, timeout: SAMPLING_TIMEOUT_MS }
+    );
+
+    if (result.content.type !== 'text') {
+      throw new Error(`Client returned ${result.content.type} content instead of text`);
+    }
+
+    logger.debug('Sampling request completed', { model: result.model, stopReason: result.stopReason });
+    return result.content.text;
+  }
+}
+
+/**
+ * Calls OpenAI directly (OPENAI_API_KEY, OPENAI_MODEL)
+ */
+export class OpenAILLMClient implements LLMClient {
+  readonly name = 'openai';
+
+  async complete(request: LLMRequest): Promise<string> {
+    const model = new ChatOpenAI({
+      model: process.env.OPENAI_MODEL || 'gpt-4o',
+      temperature: request.temperature,
+      maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      apiKey: process.env.OPENAI_API_KEY
+    });
+
+    const response = await model.invoke([
+      ...(request.systemPrompt ? [new SystemMessage(request.systemPrompt)] : []),
+      new HumanMessage(request.prompt)
+    ], { signal: request.signal });
+
+    return response.content.toString();
+  }
+}
+
+/**
+ * The provider used when the client cannot sample
+ * FUZRODO_LLM_PROVIDER selects it (openai or none); defaults to openai when
+ * OPENAI_API_KEY is set
+ */
+export function getFallbackLLM(): LLMClient | undefined {
+  const provider = (process.env.FUZRODO_LLM_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'none')).toLowerCase();
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAILLMClient();
+    case 'none':
+      return undefined;
+    default:
+      logger.warn(`Unknown FUZRODO_LLM_PROVIDER: ${provider}`);
+      return undefined;
+  }
+}
+
+/**
+ * Choose the LLM for a run started by a tool call
+ * Prefers sampling when the client advertised the capability
+ */
+export function selectLLM(server: Server, sendRequest: SendRequest): LLMClient | undefined {
+  if (server.getClientCapabilities()?.sampling) {
+    return new SamplingLLMClient(sendRequest);
+  }
+  return getFallbackLLM();
+}
+
+/**
+ * The LLM for the current run, from the node's config
+ * Throws when neither sampling nor a fallback provider is available
+ */
+export function getLLM(config: LangGraphRunnableConfig | undefined): LLMClient {
+  const llm = (config?.configurable?.llm as LLMClient | undefined) ?? getFallbackLLM();
+  if (!llm) {
+    throw new Error(
+      'No LLM available: the client does not support sampling and no fallback provider is configured (set OPENAI_API_KEY)'
+    );
+  }
+  return llm;
+}
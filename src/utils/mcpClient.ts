@@ -4,27 +4,148 @@
  * a clean interface for calling their tools
  */
 
+import { EventEmitter } from 'events';
+import { setTimeout as sleep } from 'timers/promises';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import {
   MCPServerConfig,
   MCPConnection,
+  MCPConnectionState,
+  MCPConnectionStateChange,
+  MCPReconnectPolicy,
+  MCPCallPolicy,
+  MCPCallOptions,
+  MCPCircuitBreakerPolicy,
   MCPValidationResult
 } from '../types/mcpConnections';
-import { MCPClientError } from './errors';
+import { MCPClientError, MCPTimeoutError, MCPToolResultError, CircuitOpenError, ConfigError } from './errors';
+import { CircuitBreaker } from './circuitBreaker';
+import { ToolResult } from './toolResult';
 import { logger } from './logger';
+import { loadServerConfigFile } from './serverConfig';
+import { envNumber } from './env';
 
-export class MCPClientManager {
+/**
+ * Connection state and reconnection bookkeeping for one server
+ */
+interface ServerStatus {
+  state: MCPConnectionState;
+  attempts: number; // Consecutive failed connection attempts
+  nextRetryAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Read the reconnection policy from the environment
+ * MCP_RECONNECT_MAX_ATTEMPTS, MCP_RECONNECT_BASE_DELAY_MS, MCP_RECONNECT_MAX_DELAY_MS
+ */
+function reconnectPolicyFromEnv(): MCPReconnectPolicy {
+  return {
+    maxAttempts: envNumber('MCP_RECONNECT_MAX_ATTEMPTS') ?? 5,
+    baseDelayMs: envNumber('MCP_RECONNECT_BASE_DELAY_MS') ?? 500,
+    maxDelayMs: envNumber('MCP_RECONNECT_MAX_DELAY_MS') ?? 30000,
+  };
+}
+
+/**
+ * Read the default tool call policy from the environment
+ * MCP_CALL_TIMEOUT_MS, MCP_CALL_RETRIES, MCP_CALL_RETRY_BASE_DELAY_MS
+ */
+function callPolicyFromEnv(): Required<MCPCallPolicy> {
+  return {
+    timeoutMs: envNumber('MCP_CALL_TIMEOUT_MS') ?? 60000,
+    retries: envNumber('MCP_CALL_RETRIES') ?? 2,
+    retryBaseDelayMs: envNumber('MCP_CALL_RETRY_BASE_DELAY_MS') ?? 500,
+    idempotent: false,
+  };
+}
+
+/**
+ * Read the default circuit breaker policy from the environment
+ * MCP_CIRCUIT_FAILURE_THRESHOLD, MCP_CIRCUIT_WINDOW_MS, MCP_CIRCUIT_COOLDOWN_MS
+ */
+function circuitBreakerPolicyFromEnv(): MCPCircuitBreakerPolicy {
+  return {
+    failureThreshold: envNumber('MCP_CIRCUIT_FAILURE_THRESHOLD') ?? 5,
+    windowMs: envNumber('MCP_CIRCUIT_WINDOW_MS') ?? 60000,
+    cooldownMs: envNumber('MCP_CIRCUIT_COOLDOWN_MS') ?? 30000,
+  };
+}
+
+/**
+ * Emits 'stateChange' (MCPConnectionStateChange) whenever a server's
+ * connection state changes
+ */
+export class MCPClientManager extends EventEmitter {
   private connections: Map<string, MCPConnection> = new Map();
+  private pendingConnections: Map<string, Promise<Client>> = new Map();
+  private statuses: Map<string, ServerStatus> = new Map();
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
   private config: Map<string, MCPServerConfig> = new Map();
+  private disabledServers: Set<string> = new Set();
+  private configError?: ConfigError;
+  private readonly reconnectPolicy: MCPReconnectPolicy;
+  private readonly defaultCallPolicy = callPolicyFromEnv();
+  private readonly defaultCircuitBreakerPolicy = circuitBreakerPolicyFromEnv();
+
+  constructor(reconnectPolicy: Partial<MCPReconnectPolicy> = {}) {
+    super();
+    this.reconnectPolicy = { ...reconnectPolicyFromEnv(), ...reconnectPolicy };
+
+    try {
+      this.loadConfig();
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
 
-  constructor() {
-    this.loadConfigFromEnv();
+      // Reported by main() so startup fails with a clear message
+      this.configError = error;
+      logger.error(error.message);
+    }
+  }
+
+  /**
+   * Load MCP server configurations from fuzrodo.config.json,
+   * falling back to environment variables when there is no config file
+   */
+  private loadConfig(): void {
+    const servers = loadServerConfigFile();
+    if (!servers) {
+      this.loadConfigFromEnv();
+      return;
+    }
+
+    for (const server of servers) {
+      if (server.disabled) {
+        this.disabledServers.add(server.name);
+        logger.debug(`Skipping disabled MCP server: ${server.name}`);
+        continue;
+      }
+
+      this.config.set(server.name, server);
+      logger.debug(`Loaded MCP server config: ${server.name}`);
+    }
+
+    logger.info(`Loaded ${this.config.size} MCP server configurations from config file`);
+    logger.debug('Configured servers:', { servers: Array.from(this.config.keys()) });
+  }
+
+  /**
+   * Get the error from loading an invalid config file, if any
+   */
+  getConfigError(): ConfigError | undefined {
+    return this.configError;
   }
 
   /**
    * Load MCP server configurations from environment variables
-   * Format: {SERVERNAME}_MCP_TRANSPORT, {SERVERNAME}_MCP_COMMAND, {SERVERNAME}_MCP_ARGS
+   * stdio: {SERVERNAME}_MCP_TRANSPORT=stdio, {SERVERNAME}_MCP_COMMAND, {SERVERNAME}_MCP_ARGS
+   * http/sse: {SERVERNAME}_MCP_TRANSPORT=http|sse, {SERVERNAME}_MCP_URL,
+   *   optional {SERVERNAME}_MCP_HEADERS (JSON object) and {SERVERNAME}_MCP_AUTH_TOKEN
    */
   private loadConfigFromEnv(): void {
     const serverNames = new Set<string>();
@@ -45,25 +166,55 @@ export class MCPClientManager {
     // Parse configuration for each server
     for (const serverName of serverNames) {
       const transport = process.env[`${serverName}_MCP_TRANSPORT`];
-      const command = process.env[`${serverName}_MCP_COMMAND`];
-      const argsStr = process.env[`${serverName}_MCP_ARGS`];
+      const normalizedName = serverName.toLowerCase().replace(/_/g, '-');
+
+      if (transport === 'stdio') {
+        const command = process.env[`${serverName}_MCP_COMMAND`];
+        const argsStr = process.env[`${serverName}_MCP_ARGS`];
+
+        if (command && argsStr) {
+          try {
+            const args = JSON.parse(argsStr);
+
+            this.config.set(normalizedName, {
+              name: normalizedName,
+              transport: 'stdio',
+              command,
+              args,
+            });
+
+            logger.debug(`Loaded MCP server config: ${normalizedName}`);
+          } catch (error) {
+            logger.warn(`Failed to parse MCP config for ${serverName}`, { error });
+          }
+        }
+      } else if (transport === 'http' || transport === 'sse') {
+        const url = process.env[`${serverName}_MCP_URL`];
+        const headersStr = process.env[`${serverName}_MCP_HEADERS`];
+
+        if (!url) {
+          logger.warn(`Missing ${serverName}_MCP_URL for ${transport} MCP server`);
+          continue;
+        }
 
-      if (transport === 'stdio' && command && argsStr) {
         try {
-          const args = JSON.parse(argsStr);
-          const normalizedName = serverName.toLowerCase().replace(/_/g, '-');
+          new URL(url);
+          const headers = headersStr ? JSON.parse(headersStr) : undefined;
 
           this.config.set(normalizedName, {
             name: normalizedName,
-            transport: 'stdio',
-            command,
-            args,
+            transport,
+            url,
+            headers,
+            authToken: process.env[`${serverName}_MCP_AUTH_TOKEN`] || undefined,
           });
 
           logger.debug(`Loaded MCP server config: ${normalizedName}`);
         } catch (error) {
           logger.warn(`Failed to parse MCP config for ${serverName}`, { error });
         }
+      } else {
+        logger.warn(`Unsupported MCP transport for ${serverName}: ${transport}`);
       }
     }
 
@@ -73,6 +224,10 @@ export class MCPClientManager {
 
   /**
    * Connect to an MCP server
+   * Connections are pooled: concurrent callers share one connection attempt,
+   * and later calls reuse the open connection. After a crash or failed attempt
+   * the next call reconnects, waiting out an exponential backoff, until the
+   * policy's maximum number of attempts is reached
    */
   async connect(serverName: string): Promise<Client> {
     // Check if already connected
@@ -81,6 +236,79 @@ export class MCPClientManager {
       return existing.client;
     }
 
+    // Share an in-flight connection attempt
+    const pending = this.pendingConnections.get(serverName);
+    if (pending) {
+      return pending;
+    }
+
+    const connecting = this.reconnectWithBackoff(serverName).finally(() => {
+      this.pendingConnections.delete(serverName);
+    });
+    this.pendingConnections.set(serverName, connecting);
+
+    return connecting;
+  }
+
+  /**
+   * Make one connection attempt, respecting the backoff from earlier failures
+   */
+  private async reconnectWithBackoff(serverName: string): Promise<Client> {
+    const status = this.statuses.get(serverName);
+
+    if (status?.state === 'failed') {
+      throw new MCPClientError(
+        `MCP server ${serverName} is unavailable after ${status.attempts} failed connection attempts ` +
+        `(last error: ${status.lastError ?? 'unknown'}). Call reconnect() or restart FuzroDo to retry.`,
+        serverName
+      );
+    }
+
+    const delay = (status?.nextRetryAt ?? 0) - Date.now();
+    if (delay > 0) {
+      logger.info(`Waiting ${delay}ms before reconnecting to MCP server: ${serverName}`, {
+        attempt: (status?.attempts ?? 0) + 1,
+      });
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    this.setState(serverName, 'connecting');
+
+    try {
+      const client = await this.openConnection(serverName);
+
+      const current = this.statuses.get(serverName)!;
+      current.attempts = 0;
+      current.nextRetryAt = undefined;
+      current.lastError = undefined;
+      this.setState(serverName, 'connected');
+
+      return client;
+    } catch (error) {
+      const current = this.statuses.get(serverName)!;
+      current.attempts++;
+      current.lastError = describeError(error);
+
+      if (current.attempts >= this.reconnectPolicy.maxAttempts) {
+        current.nextRetryAt = undefined;
+        this.setState(serverName, 'failed', current.lastError);
+      } else {
+        const backoff = Math.min(
+          this.reconnectPolicy.baseDelayMs * 2 ** (current.attempts - 1),
+          this.reconnectPolicy.maxDelayMs
+        );
+        current.nextRetryAt = Date.now() + backoff;
+        this.setState(serverName, 'disconnected', current.lastError);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Open a new connection to an MCP server
+   */
+  private async openConnection(serverName: string): Promise<Client> {
     // Get configuration
     const config = this.config.get(serverName);
     if (!config) {
@@ -92,11 +320,7 @@ export class MCPClientManager {
 
     try {
       logger.info(`Connecting to MCP server: ${serverName}`);
-      logger.debug(`MCP server config:`, {
-        command: config.command,
-        args: config.args,
-        cwd: process.cwd(),
-      });
+      logger.debug(`MCP server config:`, describeConfig(config));
 
       // Create client and transport
       const client = new Client(
@@ -109,20 +333,28 @@ export class MCPClientManager {
         }
       );
 
-      const transport = new StdioClientTransport({
-        command: config.command,
-        args: config.args,
-      });
-
-      await client.connect(transport);
+      const transport = createTransport(config);
 
       // Store connection
       const connection: MCPConnection = {
         config,
         client,
-        connected: true,
+        connected: false,
       };
 
+      // Detect crashes and dropped connections so the next call reconnects
+      client.onclose = () => this.handleConnectionClosed(serverName, connection);
+      client.onerror = (error) => {
+        logger.warn(`MCP server ${serverName} transport error`, { error: describeError(error) });
+        const status = this.statuses.get(serverName);
+        if (status) {
+          status.lastError = describeError(error);
+        }
+      };
+
+      await client.connect(transport);
+      connection.connected = true;
+
       this.connections.set(serverName, connection);
       logger.info(`Successfully connected to MCP server: ${serverName}`);
 
@@ -148,7 +380,7 @@ export class MCPClientManager {
     const client = await this.connect(serverName);
 
     try {
-      const response = await client.listTools();
+      const response = await client.listTools(undefined, this.requestOptions(serverName));
 
       // Cache tools on connection
       const connection = this.connections.get(serverName);
@@ -169,34 +401,148 @@ export class MCPClientManager {
 
   /**
    * Call a tool on an MCP server
+   * The call is subject to the resolved timeout/retry policy and the server's
+   * circuit breaker; pass a policy to override them for this call only
    */
   async callTool(
     serverName: string,
     toolName: string,
-    args: Record<string, any>
+    args: Record<string, any>,
+    policyOverride?: MCPCallPolicy,
+    options: MCPCallOptions = {}
   ): Promise<any> {
-    const client = await this.connect(serverName);
+    const policy = this.resolveCallPolicy(serverName, toolName, policyOverride);
+    const breaker = this.getCircuitBreaker(serverName);
+    const maxAttempts = 1 + Math.max(0, policy.retries);
+
+    for (let attempt = 1; ; attempt++) {
+      options.signal?.throwIfAborted();
+
+      if (!breaker.allowRequest()) {
+        throw new CircuitOpenError(
+          `MCP server ${serverName} is failing repeatedly; not calling ${toolName} until ` +
+          `${new Date(breaker.getRetryAt()).toISOString()}`,
+          serverName,
+          toolName,
+          breaker.getRetryAt()
+        );
+      }
 
-    try {
-      logger.debug(`Calling tool ${toolName} on ${serverName}`, { args });
+      let sent = false;
+      let response: any;
+      try {
+        const client = await this.connect(serverName);
+        sent = true;
+
+        logger.debug(`Calling tool ${toolName} on ${serverName}`, { args, attempt, timeoutMs: policy.timeoutMs });
+
+        response = await client.callTool(
+          {
+            name: toolName,
+            arguments: args,
+          },
+          undefined,
+          { timeout: policy.timeoutMs, onprogress: options.onProgress, signal: options.signal }
+        );
+
+        // The server answered, even if the tool itself reported a failure
+        breaker.recordSuccess();
+      } catch (error) {
+        if (options.signal?.aborted) {
+          // Cancelled by the caller (the SDK has told the server); not a server failure
+          breaker.recordCancelled();
+          logger.debug(`Call to ${toolName} on ${serverName} was cancelled`);
+          throw error;
+        }
 
-      const response = await client.callTool({
-        name: toolName,
-        arguments: args,
-      });
+        breaker.recordFailure();
+
+        const transient = isTransientError(error);
+        // A call that never reached the server is safe to retry; one that did only if idempotent
+        const canRetry = transient && attempt < maxAttempts && (!sent || policy.idempotent)
+          && breaker.getState() !== 'open';
+
+        if (canRetry) {
+          const delay = jitteredBackoff(policy.retryBaseDelayMs, attempt);
+          logger.warn(`Tool ${toolName} on ${serverName} failed, retrying in ${delay}ms`, {
+            attempt,
+            maxAttempts,
+            error: describeError(error),
+          });
+          await waitForRetry(delay, options.signal);
+          continue;
+        }
+
+        throw toCallError(error, serverName, toolName, policy.timeoutMs);
+      }
+
+      if (response?.isError) {
+        const errorText = extractErrorText(response);
+        logger.warn(`Tool ${toolName} on ${serverName} returned an error`, { error: errorText });
+
+        throw new MCPToolResultError(
+          `Tool ${toolName} on ${serverName} returned an error: ${errorText}`,
+          serverName,
+          toolName,
+          errorText,
+          response
+        );
+      }
 
       logger.debug(`Tool ${toolName} completed successfully`);
       return response;
-    } catch (error) {
-      throw new MCPClientError(
-        `Failed to call tool ${toolName} on ${serverName}`,
-        serverName,
-        toolName,
-        error instanceof Error ? error : new Error(String(error))
-      );
     }
   }
 
+  /**
+   * Call a tool and wrap the response for typed extraction
+   * e.g. (await mcpManager.callToolResult(server, tool, args)).json(schema)
+   */
+  async callToolResult(
+    serverName: string,
+    toolName: string,
+    args: Record<string, any>,
+    policyOverride?: MCPCallPolicy,
+    options: MCPCallOptions = {}
+  ): Promise<ToolResult> {
+    const response = await this.callTool(serverName, toolName, args, policyOverride, options);
+    return ToolResult.from(serverName, toolName, response);
+  }
+
+  /**
+   * Resolve the call policy for a tool: defaults, then server, then tool, then override
+   */
+  private resolveCallPolicy(
+    serverName: string,
+    toolName: string,
+    override?: MCPCallPolicy
+  ): Required<MCPCallPolicy> {
+    const config = this.config.get(serverName);
+
+    return {
+      ...this.defaultCallPolicy,
+      ...(config?.timeout ? { timeoutMs: config.timeout } : {}),
+      ...definedOnly(config?.callPolicy),
+      ...definedOnly(config?.tools?.[toolName]),
+      ...definedOnly(override),
+    };
+  }
+
+  /**
+   * Get (or create) the circuit breaker for a server
+   */
+  private getCircuitBreaker(serverName: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(serverName);
+    if (!breaker) {
+      breaker = new CircuitBreaker(serverName, {
+        ...this.defaultCircuitBreakerPolicy,
+        ...definedOnly(this.config.get(serverName)?.circuitBreaker),
+      });
+      this.circuitBreakers.set(serverName, breaker);
+    }
+    return breaker;
+  }
+
   /**
    * Validate that required MCP servers and tools are available
    */
@@ -221,7 +567,15 @@ export class MCPClientManager {
 
       // Check if server is configured
       if (!this.config.has(name)) {
-        if (optional) {
+        if (this.disabledServers.has(name)) {
+          if (optional) {
+            result.warnings.push(`Optional MCP server is disabled: ${name}`);
+          } else {
+            result.valid = false;
+            result.errors.push(`Required MCP server is disabled: ${name}`);
+            result.missingServers.push(name);
+          }
+        } else if (optional) {
           result.warnings.push(`Optional MCP server not configured: ${name}`);
         } else {
           result.valid = false;
@@ -264,6 +618,80 @@ export class MCPClientManager {
     return result;
   }
 
+  /**
+   * Handle a connection closing, either on purpose or because the server died
+   */
+  private handleConnectionClosed(serverName: string, connection: MCPConnection): void {
+    const wasConnected = connection.connected;
+    connection.connected = false;
+
+    // Ignore closes of replaced connections and ones we initiated
+    if (this.connections.get(serverName) !== connection || connection.closing || !wasConnected) {
+      return;
+    }
+
+    const status = this.statuses.get(serverName);
+    logger.warn(`Connection to MCP server ${serverName} closed unexpectedly; will reconnect on next use`, {
+      lastError: status?.lastError,
+    });
+    this.setState(serverName, 'disconnected', status?.lastError);
+  }
+
+  /**
+   * Record a connection state change and emit it
+   */
+  private setState(serverName: string, state: MCPConnectionState, error?: string): void {
+    const status = this.statuses.get(serverName);
+    const previous = status?.state;
+
+    if (status) {
+      status.state = state;
+    } else {
+      this.statuses.set(serverName, { state, attempts: 0 });
+    }
+
+    // Repeated failed attempts are reported even though the state is unchanged
+    if (previous === state && !error) {
+      return;
+    }
+
+    const change: MCPConnectionStateChange = {
+      server: serverName,
+      previous,
+      state,
+      error,
+      reconnectAttempts: this.statuses.get(serverName)!.attempts,
+    };
+
+    const message = `MCP server ${serverName} connection state: ${previous ?? 'new'} -> ${state}`;
+    if (state === 'failed') {
+      logger.error(message, change);
+    } else if (state === 'connecting') {
+      logger.debug(message, change);
+    } else {
+      logger.info(message, change);
+    }
+
+    this.emit('stateChange', change);
+  }
+
+  /**
+   * Reset a server's backoff and failure count and reconnect
+   * Use after a server reached the maximum number of attempts
+   */
+  async reconnect(serverName: string): Promise<Client> {
+    await this.disconnect(serverName);
+
+    const status = this.statuses.get(serverName);
+    if (status) {
+      status.attempts = 0;
+      status.nextRetryAt = undefined;
+      status.state = 'disconnected';
+    }
+
+    return this.connect(serverName);
+  }
+
   /**
    * Disconnect from an MCP server
    */
@@ -271,8 +699,10 @@ export class MCPClientManager {
     const connection = this.connections.get(serverName);
     if (connection?.connected) {
       try {
+        connection.closing = true;
         await connection.client.close();
         connection.connected = false;
+        this.setState(serverName, 'disconnected');
         logger.info(`Disconnected from MCP server: ${serverName}`);
       } catch (error) {
         logger.warn(`Error disconnecting from ${serverName}`, { error });
@@ -280,10 +710,20 @@ export class MCPClientManager {
     }
   }
 
+  /**
+   * Get the connection state of a server, if a connection was ever attempted
+   */
+  getConnectionState(serverName: string): MCPConnectionState | undefined {
+    return this.statuses.get(serverName)?.state;
+  }
+
   /**
    * Disconnect from all MCP servers
    */
   async disconnectAll(): Promise<void> {
+    // Let in-flight connection attempts settle so they are closed too
+    await Promise.allSettled(this.pendingConnections.values());
+
     const disconnectPromises = Array.from(this.connections.keys()).map(
       serverName => this.disconnect(serverName)
     );
@@ -291,7 +731,15 @@ export class MCPClientManager {
   }
 
   /**
-   * Get list of configured servers (from .env, not necessarily connected)
+   * Request options for a server (its configured timeout, if any)
+   */
+  private requestOptions(serverName: string): { timeout?: number } | undefined {
+    const timeout = this.config.get(serverName)?.timeout;
+    return timeout ? { timeout } : undefined;
+  }
+
+  /**
+   * Get list of configured servers (from config file or .env, not necessarily connected)
    */
   getConfiguredServers(): string[] {
     return Array.from(this.config.keys());
@@ -330,8 +778,11 @@ export class MCPClientManager {
    */
   async getHealthStatus(): Promise<Array<{
     name: string;
+    transport: MCPServerConfig['transport'];
     configured: boolean;
     connected: boolean;
+    state?: MCPConnectionState;
+    reconnectAttempts?: number;
     toolCount?: number;
     error?: string;
   }>> {
@@ -342,16 +793,22 @@ export class MCPClientManager {
         const tools = await this.listTools(serverName);
         status.push({
           name: serverName,
+          transport: this.config.get(serverName)!.transport,
           configured: true,
           connected: true,
+          state: this.getConnectionState(serverName),
+          reconnectAttempts: this.statuses.get(serverName)?.attempts,
           toolCount: tools.length,
         });
       } catch (error) {
         status.push({
           name: serverName,
+          transport: this.config.get(serverName)!.transport,
           configured: true,
           connected: false,
-          error: error instanceof Error ? error.message : String(error),
+          state: this.getConnectionState(serverName),
+          reconnectAttempts: this.statuses.get(serverName)?.attempts,
+          error: this.statuses.get(serverName)?.lastError ?? describeError(error),
         });
       }
     }
@@ -360,5 +817,170 @@ export class MCPClientManager {
   }
 }
 
+/**
+ * Check whether a failure is worth retrying: timeouts, dropped connections
+ * and network errors, but not errors returned by the tool itself
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof McpError) {
+    return error.code === ErrorCode.RequestTimeout || error.code === ErrorCode.ConnectionClosed;
+  }
+
+  // Failed to (re)connect, e.g. a crashed server still in backoff
+  if (error instanceof MCPClientError) {
+    return !(error instanceof CircuitOpenError);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|socket hang up|fetch failed|Connection closed/i.test(message);
+}
+
+/**
+ * Exponential backoff with jitter, between half and all of the doubled delay
+ */
+function jitteredBackoff(baseDelayMs: number, attempt: number): number {
+  const ceiling = baseDelayMs * 2 ** (attempt - 1);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+/**
+ * Wait before retrying a call, giving up early if the caller cancels
+ */
+async function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  try {
+    await sleep(delayMs, undefined, { signal });
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw error;
+  }
+}
+
+/**
+ * Wrap a tool call failure in the matching MCPClientError subclass
+ */
+function toCallError(error: unknown, serverName: string, toolName: string, timeoutMs: number): MCPClientError {
+  const cause = error instanceof Error ? error : new Error(String(error));
+
+  if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+    return new MCPTimeoutError(
+      `Tool ${toolName} on ${serverName} timed out after ${timeoutMs}ms`,
+      serverName,
+      toolName,
+      timeoutMs,
+      cause
+    );
+  }
+
+  if (error instanceof MCPClientError) {
+    return error;
+  }
+
+  return new MCPClientError(
+    `Failed to call tool ${toolName} on ${serverName}`,
+    serverName,
+    toolName,
+    cause
+  );
+}
+
+/**
+ * Get the error message from a tool result with isError: true
+ */
+function extractErrorText(result: any): string {
+  const text = Array.isArray(result?.content)
+    ? result.content
+        .filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+        .map((block: any) => block.text)
+        .join('\n')
+    : '';
+
+  return text || 'Tool reported an error without a message';
+}
+
+/**
+ * Drop undefined fields so they do not override earlier policy layers
+ */
+function definedOnly<T extends object>(value: T | undefined): Partial<T> {
+  if (!value) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Get a readable message from an error, including its cause
+ */
+function describeError(error: unknown): string {
+  if (error instanceof MCPClientError && error.cause) {
+    return `${error.message}: ${error.cause.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Create the client transport for a server configuration
+ */
+function createTransport(config: MCPServerConfig): Transport {
+  switch (config.transport) {
+    case 'stdio':
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args,
+        cwd: config.cwd,
+        env: config.env ? { ...getDefaultEnvironment(), ...config.env } : undefined,
+      });
+
+    case 'http':
+    case 'sse': {
+      const headers: Record<string, string> = { ...config.headers };
+      if (config.authToken) {
+        headers.Authorization = `Bearer ${config.authToken}`;
+      }
+
+      const url = new URL(config.url);
+      const requestInit = { headers };
+
+      if (config.transport === 'http') {
+        return new StreamableHTTPClientTransport(url, { requestInit });
+      }
+
+      // EventSource does not use requestInit, so headers must be added to its fetch too
+      return new SSEClientTransport(url, {
+        requestInit,
+        eventSourceInit: {
+          fetch: (input, init) => fetch(input, {
+            ...init,
+            headers: { ...(init?.headers as Record<string, string>), ...headers },
+          }),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Describe a server configuration for logging, without credentials
+ */
+function describeConfig(config: MCPServerConfig): Record<string, any> {
+  if (config.transport === 'stdio') {
+    return {
+      transport: config.transport,
+      command: config.command,
+      args: config.args,
+      cwd: config.cwd ?? process.cwd(),
+      env: Object.keys(config.env ?? {}),
+      timeout: config.timeout,
+    };
+  }
+
+  return {
+    transport: config.transport,
+    url: config.url,
+    headers: Object.keys(config.headers ?? {}),
+    auth: config.authToken ? 'bearer' : 'none',
+    timeout: config.timeout,
+  };
+}
+
 // Export singleton instance
 export const mcpClientManager = new MCPClientManager();
@@ -0,0 +1,127 @@
+/**
+ * Workflow progress reporting
+ * Turns LangGraph node starts/finishes into MCP progress notifications, and
+ * lets nodes report finer-grained progress within their own step
+ */
+
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger';
+
+/**
+ * Sends one progress update to the client (progressToken already bound)
+ */
+export type ProgressSender = (progress: Progress) => Promise<void>;
+
+/**
+ * Progress within a single node, e.g. bytes downloaded
+ */
+export type StepProgress = Progress;
+
+// Starting a node counts as a sliver of progress, so a start notification
+// still increases on the previous node's finish
+const STARTED_FRACTION = 0.01;
+const MAX_STEP_FRACTION = 0.99;
+
+/**
+ * Tracks progress through a workflow graph
+ * Each node is one unit of progress; step progress reported by the running
+ * node fills in the fraction between its start and finish
+ */
+export class WorkflowProgress extends BaseCallbackHandler {
+  name = 'WorkflowProgress';
+  awaitHandlers = true;
+
+  private nodeRuns = new Map<string, string>();
+  private currentNode?: string;
+  private lastProgress = -1;
+
+  constructor(
+    private readonly steps: string[],
+    private readonly send: ProgressSender,
+    private completed = 0
+  ) {
+    super();
+    this.completed = Math.min(completed, steps.length);
+  }
+
+  get total(): number {
+    return this.steps.length;
+  }
+
+  async handleChainStart(
+    _chain: unknown,
+    _inputs: unknown,
+    runId: string,
+    _parentRunId?: string,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    _runType?: string,
+    runName?: string
+  ): Promise<void> {
+    // Node runs are named after the node; runs inside a node only share its metadata
+    if (!runName || metadata?.langgraph_node !== runName || !this.steps.includes(runName)) {
+      return;
+    }
+
+    this.nodeRuns.set(runId, runName);
+    this.currentNode = runName;
+    await this.notify(this.completed + STARTED_FRACTION, `Running ${runName} (${this.completed + 1}/${this.total})`);
+  }
+
+  async handleChainEnd(_outputs: unknown, runId: string): Promise<void> {
+    const node = this.nodeRuns.get(runId);
+    if (!node) return;
+
+    this.nodeRuns.delete(runId);
+    this.currentNode = undefined;
+    this.completed = Math.min(this.completed + 1, this.total);
+    await this.notify(this.completed, `Finished ${node} (${this.completed}/${this.total})`);
+  }
+
+  async handleChainError(_error: unknown, runId: string): Promise<void> {
+    // Failed or interrupted nodes do not count as finished
+    if (this.nodeRuns.delete(runId)) {
+      this.currentNode = undefined;
+    }
+  }
+
+  /**
+   * Report progress within the running node
+   * Updates without a total cannot be placed on the overall scale and are dropped
+   */
+  async reportStep(update: StepProgress): Promise<void> {
+    if (!this.currentNode || !update.total || update.total <= 0) return;
+
+    const fraction = Math.min(Math.max(update.progress / update.total, STARTED_FRACTION), MAX_STEP_FRACTION);
+    const message = update.message
+      ? `${this.currentNode}: ${update.message}`
+      : `${this.currentNode}: ${Math.round(fraction * 100)}%`;
+
+    await this.notify(this.completed + fraction, message);
+  }
+
+  private async notify(progress: number, message: string): Promise<void> {
+    // Progress must increase with every notification
+    if (progress <= this.lastProgress) return;
+    this.lastProgress = progress;
+
+    try {
+      await this.send({ progress, total: this.total, message });
+    } catch (error) {
+      logger.debug('Failed to send progress notification', { error });
+    }
+  }
+}
+
+/**
+ * Report progress within the current node
+ * A no-op when the client did not ask for progress
+ */
+export function reportStepProgress(config: LangGraphRunnableConfig | undefined, update: StepProgress): void {
+  const progress = config?.configurable?.workflowProgress;
+  if (progress instanceof WorkflowProgress) {
+    void progress.reportStep(update);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Workflow Run Registry
+ * Keeps a record of recent workflow runs and the files they produced, so
+ * they can be served as MCP resources
+ */
+
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import { WorkflowStepError } from '../types/workflow.js';
+import { logger } from './logger.js';
+
+export type WorkflowRunStatus = 'running' | 'awaiting_llm_action' | 'completed' | 'failed' | 'cancelled';
+
+export interface WorkflowRunRecord {
+  id: string; // The run's LangGraph thread id
+  workflowId: string;
+  status: WorkflowRunStatus;
+  input: Record<string, unknown>;
+  completedSteps: string[];
+  errors: WorkflowStepError[];
+  output?: Record<string, unknown>;
+  resumeToken?: string;
+  artifacts: string[]; // Artifact ids
+  startedAt: number;
+  updatedAt: number;
+  sessionId?: string; // Client session that started the run (HTTP transport)
+}
+
+/**
+ * A file written by a workflow run
+ */
+export interface WorkflowArtifact {
+  id: string;
+  runId: string;
+  name: string;
+  path: string;
+  mimeType: string;
+  createdAt: number;
+}
+
+const MAX_RUNS = 200;
+
+const MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+};
+
+/**
+ * Records workflow runs and artifacts in memory
+ * Emits 'runChanged' (record, created) and 'artifactAdded' (artifact)
+ */
+export class WorkflowRunRegistry extends EventEmitter {
+  private runs = new Map<string, WorkflowRunRecord>();
+  private artifacts = new Map<string, WorkflowArtifact>();
+
+  /**
+   * Mark a run as running, creating its record on first start
+   */
+  begin(id: string, workflowId: string, input: Record<string, unknown> = {}, sessionId?: string): WorkflowRunRecord {
+    const existing = this.runs.get(id);
+    if (existing) {
+      return this.update(id, { status: 'running', resumeToken: undefined })!;
+    }
+
+    const now = Date.now();
+    const record: WorkflowRunRecord = {
+      id,
+      workflowId,
+      status: 'running',
+      input,
+      completedSteps: [],
+      errors: [],
+      artifacts: [],
+      startedAt: now,
+      updatedAt: now,
+      sessionId,
+    };
+
+    this.runs.set(id, record);
+    this.evictOldRuns();
+    this.emit('runChanged', record, true);
+    return record;
+  }
+
+  /**
+   * Update a run record
+   */
+  update(id: string, changes: Partial<Omit<WorkflowRunRecord, 'id' | 'workflowId' | 'startedAt'>>): WorkflowRunRecord | undefined {
+    const record = this.runs.get(id);
+    if (!record) return undefined;
+
+    Object.assign(record, changes, { updatedAt: Date.now() });
+    this.emit('runChanged', record, false);
+    return record;
+  }
+
+  get(id: string): WorkflowRunRecord | undefined {
+    return this.runs.get(id);
+  }
+
+  /**
+   * List runs visible to a client session, newest first
+   */
+  list(sessionId?: string): WorkflowRunRecord[] {
+    return Array.from(this.runs.values())
+      .filter(record => inSession(record, sessionId))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Record a file written by a run
+   */
+  addArtifact(runId: string, filePath: string, mimeType?: string): WorkflowArtifact | undefined {
+    const record = this.runs.get(runId);
+    if (!record) {
+      logger.warn('Artifact recorded for unknown run', { runId, filePath });
+      return undefined;
+    }
+
+    const artifact: WorkflowArtifact = {
+      id: uuidv4(),
+      runId,
+      name: path.basename(filePath),
+      path: filePath,
+      mimeType: mimeType ?? guessMimeType(filePath),
+      createdAt: Date.now(),
+    };
+
+    this.artifacts.set(artifact.id, artifact);
+    record.artifacts.push(artifact.id);
+    this.emit('artifactAdded', artifact);
+    return artifact;
+  }
+
+  getArtifact(id: string): WorkflowArtifact | undefined {
+    return this.artifacts.get(id);
+  }
+
+  /**
+   * List artifacts visible to a client session, optionally for one run
+   */
+  listArtifacts(sessionId?: string, runId?: string): WorkflowArtifact[] {
+    return Array.from(this.artifacts.values()).filter(artifact => {
+      const record = this.runs.get(artifact.runId);
+      return record !== undefined && inSession(record, sessionId) && (!runId || artifact.runId === runId);
+    });
+  }
+
+  /**
+   * Check a run is visible to a client session
+   */
+  isVisible(record: WorkflowRunRecord, sessionId?: string): boolean {
+    return inSession(record, sessionId);
+  }
+
+  /**
+   * Drop the oldest finished runs (and their artifact records) past MAX_RUNS
+   */
+  private evictOldRuns(): void {
+    if (this.runs.size <= MAX_RUNS) return;
+
+    const finished = Array.from(this.runs.values())
+      .filter(record => record.status !== 'running' && record.status !== 'awaiting_llm_action')
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+
+    for (const record of finished.slice(0, this.runs.size - MAX_RUNS)) {
+      this.runs.delete(record.id);
+      record.artifacts.forEach(id => this.artifacts.delete(id));
+    }
+  }
+}
+
+/**
+ * Runs started without a session are visible to every client
+ */
+function inSession(record: WorkflowRunRecord, sessionId?: string): boolean {
+  return !record.sessionId || record.sessionId === sessionId;
+}
+
+function guessMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Record a file written by the current node's run
+ * The run is identified by the thread id in the node's config
+ */
+export function recordArtifact(
+  config: LangGraphRunnableConfig | undefined,
+  filePath: string,
+  mimeType?: string
+): void {
+  const runId = config?.configurable?.thread_id;
+  if (typeof runId === 'string') {
+    workflowRuns.addArtifact(runId, filePath, mimeType);
+  }
+}
+
+// Export singleton instance
+export const workflowRuns = new WorkflowRunRegistry();
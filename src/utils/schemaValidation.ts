@@ -0,0 +1,114 @@
+/**
+ * Workflow schema validation
+ * Checks tool arguments against the workflow's inputSchema (JSON Schema),
+ * applying declared defaults before the graph runs, and workflow results
+ * against their output schema
+ */
+
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+import _addFormats from 'ajv-formats';
+import { JSONSchema, WorkflowDefinition } from '../types/workflow';
+import { InputValidationError } from './errors';
+import { logger } from './logger';
+
+// ajv-formats is CommonJS; its default export is the plugin function
+const addFormats = _addFormats as unknown as (ajv: Ajv) => Ajv;
+
+const ajv = new Ajv({
+  allErrors: true,
+  useDefaults: true,
+  strict: false,
+});
+addFormats(ajv);
+
+const validators = new WeakMap<JSONSchema, ValidateFunction>();
+
+/**
+ * Validate arguments for a workflow
+ * Returns a copy of the arguments with schema defaults applied
+ * Throws InputValidationError listing every problem
+ */
+export function validateWorkflowInput(
+  workflow: WorkflowDefinition,
+  args: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  const input = structuredClone(args ?? {});
+  const validate = getValidator(workflow.inputSchema);
+
+  if (validate(input)) {
+    return input;
+  }
+
+  const errors = validate.errors ?? [];
+  const issues = errors.map(formatError);
+  logger.warn(`Invalid arguments for workflow ${workflow.id}`, { issues });
+
+  throw new InputValidationError(
+    `Invalid arguments for ${workflow.id}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`,
+    issues,
+    workflow.id,
+    [...new Set(errors.map(errorField))]
+  );
+}
+
+/**
+ * List every way a value fails to match a schema (empty when it matches)
+ * The value itself is left untouched
+ */
+export function findSchemaIssues(schema: JSONSchema, value: unknown): string[] {
+  const validate = getValidator(schema);
+  return validate(structuredClone(value)) ? [] : (validate.errors ?? []).map(formatError);
+}
+
+/**
+ * Check a JSON Schema can be compiled
+ * Returns the compile error, or undefined when the schema is usable
+ */
+export function findSchemaDefinitionError(schema: JSONSchema): string | undefined {
+  try {
+    getValidator(schema);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function getValidator(schema: JSONSchema): ValidateFunction {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate;
+}
+
+/**
+ * The top-level argument an ajv error is about ('' for the arguments object itself)
+ */
+function errorField(error: ErrorObject): string {
+  const [field] = error.instancePath.split('/').filter(Boolean);
+  return field ?? error.params.missingProperty ?? error.params.additionalProperty ?? '';
+}
+
+/**
+ * Turn an ajv error into a message naming the argument at fault
+ */
+function formatError(error: ErrorObject): string {
+  const path = error.instancePath.replace(/^\//, '').replace(/\//g, '.');
+
+  if (error.keyword === 'required') {
+    const field = [path, error.params.missingProperty].filter(Boolean).join('.');
+    return `${field}: is required`;
+  }
+
+  if (error.keyword === 'additionalProperties') {
+    const field = [path, error.params.additionalProperty].filter(Boolean).join('.');
+    return `${field}: is not a recognised argument`;
+  }
+
+  if (error.keyword === 'enum') {
+    return `${path || '(root)'}: must be one of ${error.params.allowedValues.map((value: unknown) => JSON.stringify(value)).join(', ')}`;
+  }
+
+  return `${path || '(root)'}: ${error.message}`;
+}
@@ -0,0 +1,223 @@
+/**
+ * MCP server configuration file loader
+ * Reads fuzrodo.config.json, which uses the same `mcpServers` shape as
+ * claude_desktop_config.json, validates it and interpolates ${VAR} references
+ */
+
+import * as fs from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve } from 'path';
+import { z } from 'zod';
+import { MCPServerConfig } from '../types/mcpConnections.js';
+import { ConfigError } from './errors.js';
+import { logger } from './logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Default config file location - FuzroDo's directory, like .env
+ */
+const DEFAULT_CONFIG_PATH = join(__dirname, '..', '..', 'fuzrodo.config.json');
+
+const callPolicySchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  retries: z.number().int().min(0).optional(),
+  retryBaseDelayMs: z.number().int().min(0).optional(),
+  idempotent: z.boolean().optional(),
+}).strict();
+
+const commonFields = {
+  timeout: z.number().int().positive().optional(),
+  disabled: z.boolean().optional(),
+  callPolicy: callPolicySchema.optional(),
+  tools: z.record(callPolicySchema).optional(),
+  circuitBreaker: z.object({
+    failureThreshold: z.number().int().positive().optional(),
+    windowMs: z.number().int().positive().optional(),
+    cooldownMs: z.number().int().positive().optional(),
+  }).strict().optional(),
+};
+
+const stdioServerSchema = z.object({
+  type: z.literal('stdio').optional(),
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  ...commonFields,
+}).strict();
+
+const httpServerSchema = z.object({
+  type: z.enum(['http', 'sse']).default('http'),
+  url: z.string().url(),
+  headers: z.record(z.string()).optional(),
+  authToken: z.string().optional(),
+  ...commonFields,
+}).strict();
+
+const configFileSchema = z.object({
+  mcpServers: z.record(z.unknown()),
+}).passthrough();
+
+/**
+ * Get the config file path (FUZRODO_CONFIG or the default location)
+ */
+export function getServerConfigPath(): string {
+  return process.env.FUZRODO_CONFIG
+    ? resolve(process.env.FUZRODO_CONFIG)
+    : DEFAULT_CONFIG_PATH;
+}
+
+/**
+ * Load MCP server configurations from the config file
+ * Returns null when no config file exists, so callers can fall back to .env
+ * Throws ConfigError listing every problem when the file is invalid
+ */
+export function loadServerConfigFile(configPath: string = getServerConfigPath()): MCPServerConfig[] | null {
+  if (!fs.existsSync(configPath)) {
+    if (process.env.FUZRODO_CONFIG) {
+      throw new ConfigError(`Config file not found: ${configPath}`, configPath);
+    }
+    return null;
+  }
+
+  logger.debug('Loading MCP configurations from file', { configPath });
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to parse config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+      configPath
+    );
+  }
+
+  const issues: string[] = [];
+  const interpolated = interpolateConfig(raw, issues);
+
+  const file = configFileSchema.safeParse(interpolated);
+  if (!file.success) {
+    issues.push(...formatIssues(file.error, ''));
+    throw invalidConfig(configPath, issues);
+  }
+
+  const servers: MCPServerConfig[] = [];
+
+  for (const [name, serverConfig] of Object.entries(file.data.mcpServers)) {
+    const path = `mcpServers.${name}`;
+    const isHttp = isHttpServer(serverConfig);
+    const parsed = (isHttp ? httpServerSchema : stdioServerSchema).safeParse(serverConfig);
+
+    if (!parsed.success) {
+      issues.push(...formatIssues(parsed.error, path));
+      continue;
+    }
+
+    if ('url' in parsed.data) {
+      const { type, ...rest } = parsed.data;
+      servers.push({ name, transport: type, ...rest });
+    } else {
+      const { type: _type, ...rest } = parsed.data;
+      servers.push({ name, transport: 'stdio', ...rest });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw invalidConfig(configPath, issues);
+  }
+
+  return servers;
+}
+
+/**
+ * A server is reached over HTTP when its type says so, or it has a url and no command
+ */
+function isHttpServer(serverConfig: unknown): boolean {
+  if (typeof serverConfig !== 'object' || serverConfig === null) return false;
+
+  const { type, url, command } = serverConfig as Record<string, unknown>;
+  if (type !== undefined) {
+    return type === 'http' || type === 'sse';
+  }
+  return url !== undefined && command === undefined;
+}
+
+/**
+ * Interpolate ${VAR} references across the config file
+ * Disabled servers are never started, so variables they reference may be unset
+ */
+function interpolateConfig(raw: unknown, issues: string[]): unknown {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return interpolateEnv(raw, '', issues);
+  }
+
+  const { mcpServers, ...rest } = raw as Record<string, unknown>;
+  if (typeof mcpServers !== 'object' || mcpServers === null || Array.isArray(mcpServers)) {
+    return interpolateEnv(raw, '', issues);
+  }
+
+  return {
+    ...(interpolateEnv(rest, '', issues) as Record<string, unknown>),
+    mcpServers: Object.fromEntries(
+      Object.entries(mcpServers).map(([name, serverConfig]) => [
+        name,
+        interpolateEnv(serverConfig, `mcpServers.${name}`, isDisabled(serverConfig) ? undefined : issues),
+      ])
+    ),
+  };
+}
+
+function isDisabled(serverConfig: unknown): boolean {
+  return typeof serverConfig === 'object' && serverConfig !== null
+    && (serverConfig as Record<string, unknown>).disabled === true;
+}
+
+/**
+ * Replace ${VAR} references in every string value with environment variables
+ * Unset variables are reported to issues, or left in place when no issues list is given
+ */
+function interpolateEnv(value: unknown, path: string, issues: string[] | undefined): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (match, varName: string) => {
+      const envValue = process.env[varName];
+      if (envValue === undefined) {
+        if (!issues) return match;
+        issues.push(`${path || '(root)'}: environment variable ${varName} is not set`);
+        return '';
+      }
+      return envValue;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, `${path}[${index}]`, issues));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateEnv(item, path ? `${path}.${key}` : key, issues),
+      ])
+    );
+  }
+
+  return value;
+}
+
+function formatIssues(error: z.ZodError, basePath: string): string[] {
+  return error.issues.map(issue => {
+    const path = [basePath, ...issue.path.map(String)].filter(Boolean).join('.');
+    return `${path || '(root)'}: ${issue.message}`;
+  });
+}
+
+function invalidConfig(configPath: string, issues: string[]): ConfigError {
+  return new ConfigError(
+    `Invalid config file ${configPath}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`,
+    configPath,
+    issues
+  );
+}
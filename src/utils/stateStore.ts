@@ -0,0 +1,164 @@
+/**
+ * Workflow State Stores
+ * Persistence backends for paused workflow runs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { PersistedWorkflowState } from './workflowState.js';
+import { logger } from './logger.js';
+
+/**
+ * Backend used by WorkflowStateManager to persist paused runs
+ */
+export interface WorkflowStateStore {
+  readonly kind: string;
+  get(resumeToken: string): PersistedWorkflowState | undefined;
+  set(persisted: PersistedWorkflowState): void;
+  delete(resumeToken: string): boolean;
+  list(): PersistedWorkflowState[];
+  clear(): void;
+}
+
+/**
+ * In-memory store (default, and used for tests)
+ * Paused runs are lost when the process exits
+ */
+export class MemoryStateStore implements WorkflowStateStore {
+  readonly kind = 'memory';
+  private states = new Map<string, PersistedWorkflowState>();
+
+  get(resumeToken: string): PersistedWorkflowState | undefined {
+    return this.states.get(resumeToken);
+  }
+
+  set(persisted: PersistedWorkflowState): void {
+    this.states.set(persisted.resumeToken, persisted);
+  }
+
+  delete(resumeToken: string): boolean {
+    return this.states.delete(resumeToken);
+  }
+
+  list(): PersistedWorkflowState[] {
+    return Array.from(this.states.values());
+  }
+
+  clear(): void {
+    this.states.clear();
+  }
+}
+
+/**
+ * File store - one JSON file per paused run
+ * Writes go to a temp file first and are renamed into place so a crash
+ * never leaves a half-written run behind
+ */
+export class FileStateStore implements WorkflowStateStore {
+  readonly kind = 'file';
+
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  get(resumeToken: string): PersistedWorkflowState | undefined {
+    return this.readFile(this.filePath(resumeToken));
+  }
+
+  set(persisted: PersistedWorkflowState): void {
+    const filePath = this.filePath(persisted.resumeToken);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    fs.writeFileSync(tempPath, JSON.stringify(persisted, null, 2), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  delete(resumeToken: string): boolean {
+    try {
+      fs.unlinkSync(this.filePath(resumeToken));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  list(): PersistedWorkflowState[] {
+    const states: PersistedWorkflowState[] = [];
+
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+
+      const persisted = this.readFile(path.join(this.directory, file));
+      if (persisted) {
+        states.push(persisted);
+      }
+    }
+
+    return states;
+  }
+
+  clear(): void {
+    for (const file of fs.readdirSync(this.directory)) {
+      if (file.endsWith('.json') || file.endsWith('.tmp')) {
+        fs.unlinkSync(path.join(this.directory, file));
+      }
+    }
+  }
+
+  private filePath(resumeToken: string): string {
+    const safeName = resumeToken.replace(/[^A-Za-z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeName}.json`);
+  }
+
+  private readFile(filePath: string): PersistedWorkflowState | undefined {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(raw) as PersistedWorkflowState;
+    } catch (error) {
+      logger.warn('Ignoring unreadable workflow state file', { filePath, error });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Directory the file store keeps paused runs in
+ * WORKFLOW_STATE_DIR, default ~/.fuzrodo/runs
+ */
+export function workflowStateDirFromEnv(): string {
+  return process.env.WORKFLOW_STATE_DIR || path.join(os.homedir(), '.fuzrodo', 'runs');
+}
+
+/**
+ * Create the state store selected in the environment
+ * WORKFLOW_STATE_STORE: memory (default) | file
+ * WORKFLOW_STATE_DIR: directory for the file store (default ~/.fuzrodo/runs)
+ */
+export function createStateStoreFromEnv(): WorkflowStateStore {
+  const kind = (process.env.WORKFLOW_STATE_STORE || 'memory').toLowerCase();
+
+  if (kind === 'file') {
+    const directory = workflowStateDirFromEnv();
+    logger.info('Using file workflow state store', { directory });
+    return new FileStateStore(directory);
+  }
+
+  if (kind !== 'memory') {
+    logger.warn(`Unknown WORKFLOW_STATE_STORE "${kind}", falling back to memory`);
+  }
+
+  return new MemoryStateStore();
+}
@@ -0,0 +1,139 @@
+/**
+ * Typed access to MCP tool results
+ * Nodes read text, JSON, structured content and media from a ToolResult
+ * instead of picking through the raw response themselves
+ */
+
+import { z } from 'zod';
+import {
+  CallToolResultSchema,
+  type AudioContent,
+  type CallToolResult,
+  type ContentBlock,
+  type ImageContent,
+  type ResourceLink,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPResultFormatError } from './errors';
+
+export class ToolResult {
+  private constructor(
+    readonly serverName: string,
+    readonly toolName: string,
+    readonly raw: CallToolResult
+  ) {}
+
+  /**
+   * Wrap a raw callTool response, checking it is a valid CallToolResult
+   */
+  static from(serverName: string, toolName: string, response: unknown): ToolResult {
+    const parsed = CallToolResultSchema.safeParse(response);
+    if (!parsed.success) {
+      throw new MCPResultFormatError(
+        `Tool ${toolName} on ${serverName} returned a malformed result`,
+        serverName,
+        toolName,
+        formatIssues(parsed.error)
+      );
+    }
+    return new ToolResult(serverName, toolName, parsed.data);
+  }
+
+  get content(): ContentBlock[] {
+    return this.raw.content;
+  }
+
+  /**
+   * All text blocks joined with newlines
+   * Throws when the result has no text
+   */
+  text(): string {
+    const text = this.texts();
+    if (text.length === 0) {
+      throw this.formatError('no text content');
+    }
+    return text.join('\n');
+  }
+
+  /**
+   * Every text block, in order
+   */
+  texts(): string[] {
+    return this.content.flatMap(block => (block.type === 'text' ? [block.text] : []));
+  }
+
+  /**
+   * JSON data from the result, validated against a schema
+   * Uses structuredContent when the tool sent it, otherwise the first text
+   * block that parses as JSON
+   */
+  json<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+    if (this.raw.structuredContent !== undefined) {
+      return this.structured(schema);
+    }
+
+    const value = this.texts()
+      .map(parseJson)
+      .find(parsed => parsed !== undefined);
+
+    if (value === undefined) {
+      throw this.formatError('no JSON content');
+    }
+    return this.validate(schema, value.data, 'JSON content');
+  }
+
+  /**
+   * structuredContent from the result, validated against a schema
+   */
+  structured<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+    if (this.raw.structuredContent === undefined) {
+      throw this.formatError('no structuredContent');
+    }
+    return this.validate(schema, this.raw.structuredContent, 'structuredContent');
+  }
+
+  images(): ImageContent[] {
+    return this.content.filter((block): block is ImageContent => block.type === 'image');
+  }
+
+  audio(): AudioContent[] {
+    return this.content.filter((block): block is AudioContent => block.type === 'audio');
+  }
+
+  resourceLinks(): ResourceLink[] {
+    return this.content.filter((block): block is ResourceLink => block.type === 'resource_link');
+  }
+
+  private validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, source: string): T {
+    const parsed = schema.safeParse(value);
+    if (!parsed.success) {
+      const issues = formatIssues(parsed.error);
+      throw new MCPResultFormatError(
+        `Tool ${this.toolName} on ${this.serverName} returned unexpected ${source}: ${issues.join('; ')}`,
+        this.serverName,
+        this.toolName,
+        issues
+      );
+    }
+    return parsed.data;
+  }
+
+  private formatError(problem: string): MCPResultFormatError {
+    return new MCPResultFormatError(
+      `Tool ${this.toolName} on ${this.serverName} returned ${problem}`,
+      this.serverName,
+      this.toolName
+    );
+  }
+}
+
+function parseJson(text: string): { data: unknown } | undefined {
+  try {
+    return { data: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
@@ -0,0 +1,194 @@
+/**
+ * Structured workflow output
+ * Builds the outputSchema advertised for workflow tools and the
+ * structuredContent returned with each workflow result
+ */
+
+import { CompletedWorkflowResult, JSONSchema, WorkflowDefinition } from '../types/workflow';
+import { findSchemaIssues } from './schemaValidation';
+
+/**
+ * State fields that only matter inside the graph
+ */
+const INTERNAL_FIELDS = ['currentStep', 'error', 'errors', 'resuming', 'threadId', '__interrupt__'];
+
+/**
+ * State fields reported on a result itself rather than in its data
+ */
+const RESULT_FIELDS = ['completedSteps', 'failedStep', 'runId', 'status'];
+
+const PAUSED_RESULT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    status: { const: 'awaiting_llm_action' },
+    workflowId: { type: 'string' },
+    runId: { type: 'string', description: 'Read fuzrodo://runs/{runId} for the run record' },
+    resumeToken: { type: 'string', description: 'Pass to resume_workflow once the action is done' },
+    completedSteps: { type: 'array', items: { type: 'string' } },
+    action: {
+      type: 'object',
+      properties: {
+        type: { type: 'string' },
+        description: { type: 'string' },
+        prompt: { type: 'string' },
+        availableTools: { type: 'array', items: { type: 'string' } },
+        requiredOutputs: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['description', 'requiredOutputs'],
+    },
+    message: { type: 'string' },
+  },
+  required: ['status', 'workflowId', 'resumeToken', 'action'],
+};
+
+const FAILED_RESULT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    status: { const: 'failed' },
+    workflowId: { type: 'string' },
+    runId: { type: 'string', description: 'Read fuzrodo://runs/{runId} for the run record' },
+    completedSteps: { type: 'array', items: { type: 'string' } },
+    failedStep: { type: 'string' },
+    data: { type: 'object', description: 'Fields collected before the step failed' },
+    error: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          step: { type: 'string' },
+          error: { type: 'string' },
+          server: { type: 'string' },
+          tool: { type: 'string' },
+        },
+        required: ['step', 'error'],
+      },
+    },
+  },
+  required: ['status', 'workflowId', 'error'],
+};
+
+const toolOutputSchemas = new WeakMap<JSONSchema, JSONSchema>();
+
+/**
+ * Output schema advertised for a workflow tool
+ * The workflow's own outputSchema describes completed runs; paused and
+ * failed runs have fixed shapes, told apart by status
+ */
+export function toToolOutputSchema(workflow: WorkflowDefinition): JSONSchema | undefined {
+  if (!workflow.outputSchema) return undefined;
+
+  let schema = toolOutputSchemas.get(workflow.outputSchema);
+  if (!schema) {
+    const { type: _type, properties = {}, required = [], ...rest } = workflow.outputSchema;
+    schema = {
+      type: 'object',
+      anyOf: [
+        {
+          ...rest,
+          type: 'object',
+          properties: { status: { const: 'completed' }, ...properties },
+          required: ['status', ...required],
+        },
+        PAUSED_RESULT_SCHEMA,
+        FAILED_RESULT_SCHEMA,
+      ],
+    };
+    toolOutputSchemas.set(workflow.outputSchema, schema);
+  }
+
+  return schema;
+}
+
+/**
+ * Build the result of a run that reached the end of its graph from its final state
+ * A run that stopped at a failed step is unsuccessful, and its data is what
+ * the steps before it collected
+ */
+export function toCompletedResult(
+  workflow: WorkflowDefinition,
+  state: Record<string, any>,
+  runId?: string
+): CompletedWorkflowResult {
+  const data = Object.fromEntries(
+    Object.entries(state).filter(([key, value]) =>
+      !INTERNAL_FIELDS.includes(key) && !RESULT_FIELDS.includes(key) && value !== undefined
+    )
+  );
+  const completedSteps: string[] = state.completedSteps ?? [];
+
+  if (!state.error) {
+    return { status: 'completed', success: true, workflowId: workflow.id, runId, completedSteps, data };
+  }
+
+  return {
+    status: 'completed',
+    success: false,
+    workflowId: workflow.id,
+    runId,
+    completedSteps,
+    failedStep: state.failedStep ?? state.errors?.[state.errors.length - 1]?.step,
+    data,
+    error: state.error,
+    errors: state.errors ?? [],
+  };
+}
+
+/**
+ * Build the structuredContent for a workflow result: a paused run's state or
+ * a CompletedWorkflowResult
+ */
+export function toStructuredResult(workflow: WorkflowDefinition, result: Record<string, any>): Record<string, unknown> {
+  if (result.status === 'awaiting_llm_action') {
+    return {
+      status: result.status,
+      workflowId: workflow.id,
+      runId: result.runId,
+      resumeToken: result.resumeToken,
+      completedSteps: result.completedSteps ?? [],
+      action: result.action,
+      message: result.message,
+    };
+  }
+
+  if (!result.success) {
+    return definedOnly({
+      status: 'failed',
+      workflowId: workflow.id,
+      runId: result.runId,
+      completedSteps: result.completedSteps ?? [],
+      failedStep: result.failedStep,
+      data: Object.keys(result.data ?? {}).length > 0 ? result.data : undefined,
+      error: result.error,
+      errors: result.errors ?? [],
+    });
+  }
+
+  return definedOnly({
+    ...result.data,
+    completedSteps: result.completedSteps,
+    runId: result.runId,
+    status: 'completed',
+  });
+}
+
+/**
+ * Check structured output against the workflow tool's output schema
+ * Returns every mismatch (empty when it matches or no schema is declared)
+ */
+export function findOutputIssues(workflow: WorkflowDefinition, structured: Record<string, unknown>): string[] {
+  const schema = toToolOutputSchema(workflow);
+  if (!schema) return [];
+
+  // Check against the branch for this status so issues are not repeated per branch
+  const [completed, paused, failed] = schema.anyOf as JSONSchema[];
+  const branch = structured.status === 'awaiting_llm_action' ? paused
+    : structured.status === 'failed' ? failed
+    : completed;
+
+  return findSchemaIssues(branch, structured);
+}
+
+function definedOnly(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined));
+}
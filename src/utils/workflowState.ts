@@ -5,43 +5,58 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from './logger.js';
+import { LLMAction } from '../types/workflow.js';
+import { WorkflowStateStore, MemoryStateStore, createStateStoreFromEnv } from './stateStore.js';
+import { workflowCheckpointer } from './checkpointing.js';
 
 export interface PersistedWorkflowState {
   workflowId: string;
+  workflowVersion?: string; // Version the run started on; it resumes on the same version
   resumeToken: string;
   state: any;
   timestamp: number;
   expiresAt: number;
+  clientId?: string; // Client that paused the run (HTTP transport with a bearer token)
 }
 
 /**
  * Manages workflow state persistence for multi-step workflows
+ * Dropping a run (delete, expiry or purge) also deletes its checkpoint thread
  */
 export class WorkflowStateManager {
-  private states = new Map<string, PersistedWorkflowState>();
   private readonly DEFAULT_TTL = 30 * 60 * 1000; // 30 minutes
+  private readonly claimed = new Set<string>(); // Tokens of runs being resumed
+
+  constructor(private readonly store: WorkflowStateStore = new MemoryStateStore()) {
+    // Sweep runs that expired while the process was down
+    this.cleanupExpired();
+  }
 
   /**
    * Save workflow state and return resume token
    */
-  save(workflowId: string, state: any, ttl?: number): string {
+  save(workflowId: string, state: any, ttl?: number, clientId?: string, workflowVersion?: string): string {
     const resumeToken = `${workflowId}-${uuidv4()}`;
     const now = Date.now();
     const expiresAt = now + (ttl || this.DEFAULT_TTL);
 
     const persistedState: PersistedWorkflowState = {
       workflowId,
+      workflowVersion,
       resumeToken,
       state,
       timestamp: now,
       expiresAt,
+      clientId,
     };
 
-    this.states.set(resumeToken, persistedState);
+    this.store.set(persistedState);
 
     logger.debug('Saved workflow state', {
       workflowId,
+      workflowVersion,
       resumeToken,
+      store: this.store.kind,
       expiresAt: new Date(expiresAt).toISOString(),
     });
 
@@ -54,37 +69,85 @@ export class WorkflowStateManager {
   /**
    * Load workflow state by resume token
    */
-  load(resumeToken: string): any | null {
-    const persisted = this.states.get(resumeToken);
+  load(resumeToken: string, clientId?: string): any | null {
+    const persisted = this.inspect(resumeToken, clientId);
 
     if (!persisted) {
       logger.warn('Resume token not found', { resumeToken });
       return null;
     }
 
+    logger.debug('Loaded workflow state', {
+      workflowId: persisted.workflowId,
+      resumeToken,
+    });
+
+    return persisted.state;
+  }
+
+  /**
+   * Get the full persisted record for a resume token, or null if missing, expired
+   * or paused by a different client
+   */
+  inspect(resumeToken: string, clientId?: string): PersistedWorkflowState | null {
+    const persisted = this.store.get(resumeToken);
+    if (!persisted || !belongsTo(persisted, clientId)) return null;
+
     // Check if expired
     if (Date.now() > persisted.expiresAt) {
       logger.warn('Resume token expired', {
         resumeToken,
         expiredAt: new Date(persisted.expiresAt).toISOString(),
       });
-      this.states.delete(resumeToken);
+      this.remove(persisted);
       return null;
     }
 
-    logger.debug('Loaded workflow state', {
-      workflowId: persisted.workflowId,
-      resumeToken,
-    });
+    return persisted;
+  }
 
-    return persisted.state;
+  /**
+   * Claim a paused run for resuming
+   * Returns null if the token is missing, expired, paused by a different client
+   * or already claimed. The check and the claim happen synchronously, so two
+   * concurrent resumes cannot both claim a run. The token stays stored until
+   * it is deleted once the run has finished or paused again, or released if
+   * the resume fails
+   */
+  claim(resumeToken: string, clientId?: string): PersistedWorkflowState | null {
+    if (this.claimed.has(resumeToken)) return null;
+
+    const persisted = this.inspect(resumeToken, clientId);
+    if (persisted) {
+      this.claimed.add(resumeToken);
+    }
+    return persisted;
+  }
+
+  /**
+   * Release a claimed run so it can be resumed again
+   */
+  release(resumeToken: string): void {
+    this.claimed.delete(resumeToken);
+  }
+
+  /**
+   * Check whether a run is currently being resumed
+   */
+  isClaimed(resumeToken: string): boolean {
+    return this.claimed.has(resumeToken);
   }
 
   /**
    * Delete workflow state
+   * keepCheckpoint leaves the run's checkpoint thread in place, for when the
+   * run carries on from it (resumed, or paused again under a new token)
    */
-  delete(resumeToken: string): boolean {
-    const deleted = this.states.delete(resumeToken);
+  delete(resumeToken: string, options: { keepCheckpoint?: boolean } = {}): boolean {
+    const persisted = this.store.get(resumeToken);
+    if (!persisted) return false;
+
+    const deleted = this.remove(persisted, options.keepCheckpoint);
     if (deleted) {
       logger.debug('Deleted workflow state', { resumeToken });
     }
@@ -95,36 +158,35 @@ export class WorkflowStateManager {
    * Check if resume token exists and is valid
    */
   has(resumeToken: string): boolean {
-    const persisted = this.states.get(resumeToken);
-    if (!persisted) return false;
-
-    // Check expiration
-    if (Date.now() > persisted.expiresAt) {
-      this.states.delete(resumeToken);
-      return false;
-    }
-
-    return true;
+    return this.inspect(resumeToken) !== null;
   }
 
   /**
    * Get workflow ID from resume token
    */
   getWorkflowId(resumeToken: string): string | null {
-    const persisted = this.states.get(resumeToken);
+    const persisted = this.store.get(resumeToken);
     return persisted?.workflowId || null;
   }
 
+  /**
+   * Get the workflow version a paused run started on
+   * Runs saved before versions were recorded have none
+   */
+  getWorkflowVersion(resumeToken: string): string | undefined {
+    return this.store.get(resumeToken)?.workflowVersion;
+  }
+
   /**
    * Cleanup expired states
    */
-  private cleanupExpired(): void {
+  private cleanupExpired(): number {
     const now = Date.now();
     let cleanedCount = 0;
 
-    for (const [token, persisted] of this.states.entries()) {
+    for (const persisted of this.store.list()) {
       if (now > persisted.expiresAt) {
-        this.states.delete(token);
+        this.remove(persisted);
         cleanedCount++;
       }
     }
@@ -132,21 +194,66 @@ export class WorkflowStateManager {
     if (cleanedCount > 0) {
       logger.debug('Cleaned up expired workflow states', { count: cleanedCount });
     }
+
+    return cleanedCount;
+  }
+
+  /**
+   * List all active (unexpired) paused runs visible to a client
+   */
+  list(clientId?: string): PersistedWorkflowState[] {
+    this.cleanupExpired();
+    return this.store.list()
+      .filter(persisted => belongsTo(persisted, clientId))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Purge stored runs
+   * With a workflow ID only that workflow's runs are removed,
+   * with a client ID only that client's runs are removed,
+   * with expiredOnly only runs past their TTL are removed
+   */
+  purge(options: { workflowId?: string; clientId?: string; expiredOnly?: boolean } = {}): number {
+    if (options.expiredOnly) {
+      return this.cleanupExpired();
+    }
+
+    let purgedCount = 0;
+    for (const persisted of this.store.list()) {
+      if (options.clientId && persisted.clientId !== options.clientId) continue;
+
+      if (!options.workflowId || persisted.workflowId === options.workflowId) {
+        if (this.remove(persisted)) {
+          purgedCount++;
+        }
+      }
+    }
+
+    logger.info('Purged workflow states', {
+      count: purgedCount,
+      workflowId: options.workflowId,
+      clientId: options.clientId,
+    });
+    return purgedCount;
   }
 
   /**
    * Get all active workflow tokens (for debugging)
    */
   getActiveTokens(): string[] {
-    this.cleanupExpired();
-    return Array.from(this.states.keys());
+    return this.list().map(persisted => persisted.resumeToken);
   }
 
   /**
    * Clear all states (for testing)
    */
   clear(): void {
-    this.states.clear();
+    for (const persisted of this.store.list()) {
+      this.remove(persisted);
+    }
+    this.store.clear();
+    this.claimed.clear();
     logger.debug('Cleared all workflow states');
   }
 
@@ -154,10 +261,83 @@ export class WorkflowStateManager {
    * Get count of active states
    */
   count(): number {
-    this.cleanupExpired();
-    return this.states.size;
+    return this.list().length;
+  }
+
+  /**
+   * Get the kind of backing store (memory, file)
+   */
+  getStoreKind(): string {
+    return this.store.kind;
+  }
+
+  /**
+   * Remove a stored run and, unless told to keep it, its checkpoint thread
+   */
+  private remove(persisted: PersistedWorkflowState, keepCheckpoint = false): boolean {
+    const deleted = this.store.delete(persisted.resumeToken);
+
+    // A claimed run is being resumed, and its thread is still in use
+    const inUse = this.claimed.delete(persisted.resumeToken);
+
+    const threadId: string | undefined = persisted.state?.threadId;
+    if (threadId && !keepCheckpoint && !inUse) {
+      workflowCheckpointer.deleteThread(threadId).catch(error =>
+        logger.warn('Failed to delete workflow checkpoint', { threadId, error })
+      );
+    }
+
+    return deleted;
   }
 }
 
 // Export singleton instance
-export const workflowStateManager = new WorkflowStateManager();
\ No newline at end of file
+export const workflowStateManager = new WorkflowStateManager(createStateStoreFromEnv());
+
+/**
+ * Check whether a paused run belongs to the given client
+ * Runs saved without a client (stdio, or HTTP without auth) are visible to every caller
+ */
+function belongsTo(persisted: PersistedWorkflowState, clientId?: string): boolean {
+  return !persisted.clientId || persisted.clientId === clientId;
+}
+
+/**
+ * Fields describing the pause itself, not part of the workflow's own state
+ */
+const PAUSE_FIELDS = ['status', 'workflowId', 'runId', 'threadId', 'resumeToken', 'action', 'message'];
+
+/**
+ * Get required outputs of a paused action that are missing from the resume results
+ */
+export function getMissingResumeOutputs(
+  action: LLMAction | undefined,
+  results: Record<string, any>
+): string[] {
+  const requiredOutputs = action?.requiredOutputs ?? [];
+  return requiredOutputs.filter(output =>
+    results[output] === undefined || results[output] === null || results[output] === ''
+  );
+}
+
+/**
+ * Build the state to re-enter a graph with from a paused state and the action results
+ */
+export function toResumeState(
+  savedState: Record<string, any>,
+  results: Record<string, any>
+): Record<string, any> {
+  const state: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(savedState)) {
+    if (!PAUSE_FIELDS.includes(key)) {
+      state[key] = value;
+    }
+  }
+
+  return {
+    ...state,
+    ...results,
+    resuming: true,
+  };
+}
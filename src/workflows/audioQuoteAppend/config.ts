@@ -3,7 +3,9 @@
  */
 
 import { WorkflowRequirements } from '../../types/workflow';
-import { JSONSchema } from '../../types/workflow';
+import { JSONSchema, WorkflowPrompt, CompletionProvider } from '../../types/workflow';
+import { jiraProjectKeyCompletion } from '../../nodes/jira/completions';
+import { elevenLabsVoiceCompletion } from '../../nodes/audio/completions';
 
 export const workflowConfig: WorkflowRequirements = {
   mcpServers: [
@@ -18,7 +20,7 @@ export const workflowConfig: WorkflowRequirements = {
       optional: false,
     },
   ],
-  environment: ['OPENAI_API_KEY'],
+  // Quote enhancement uses client sampling, or OPENAI_API_KEY when the client cannot sample
 };
 
 export const inputSchema: JSONSchema = {
@@ -26,24 +28,32 @@ export const inputSchema: JSONSchema = {
   properties: {
     ticketKey: {
       type: 'string',
+      pattern: '^[A-Z][A-Z0-9_]+-[0-9]+$',
       description: 'Jira ticket key (e.g., FEDS-2002)',
     },
     ticketUrl: {
       type: 'string',
+      format: 'uri',
       description: 'Full URL to the Jira ticket',
     },
     quote: {
       type: 'string',
+      minLength: 1,
       description: 'Bradley Plum quote extracted from the ticket',
     },
     projectKey: {
       type: 'string',
+      pattern: '^[A-Z][A-Z0-9_]+$',
       description: 'Jira project key (e.g., FEDS)',
     },
     context: {
       type: 'string',
       description: 'Optional context for quote enhancement (e.g., "mystical, contemplative")',
     },
+    voice: {
+      type: 'string',
+      description: 'Optional ElevenLabs voice name (defaults to the ElevenLabs MCP default voice)',
+    },
   },
   required: ['ticketKey', 'ticketUrl', 'quote', 'projectKey'],
 };
@@ -79,3 +89,17 @@ export const outputSchema: JSONSchema = {
   },
   required: ['ticketKey', 'ticketUrl', 'enhancedQuote', 'audioPath', 'atlassianPrompt'],
 };
+
+export const completions: Record<string, CompletionProvider> = {
+  projectKey: jiraProjectKeyCompletion,
+  voice: elevenLabsVoiceCompletion,
+};
+
+export const prompt: WorkflowPrompt = {
+  description: 'Turn the Bradley Plum quote on a Jira ticket into audio and attach it',
+  instructions: `Turn the Bradley Plum quote on Jira ticket {{ticketKey}} into audio and attach it to the ticket.
+
+1. Call the \`create_audio_quote_and_append_to_ticket\` tool with the arguments below. It enhances the quote, generates audio with ElevenLabs and returns Playwright instructions (atlassianPrompt).
+2. Follow those instructions with the Playwright MCP to attach the audio file to {{ticketUrl}}.
+3. Check the attachment appears on the ticket.`,
+};
@@ -3,6 +3,8 @@
  * Step 2: Enhance quote, generate audio, and attach to Jira ticket
  */
 
+import { WorkflowStepError } from '../../types/workflow';
+
 export interface AudioQuoteAppendState {
   // Input - from ticket creation
   ticketKey: string;
@@ -10,6 +12,7 @@ export interface AudioQuoteAppendState {
   quote: string;
   projectKey: string;
   context?: string;
+  voice?: string; // ElevenLabs voice name
 
   // Workflow tracking
   currentStep: string;
@@ -26,5 +29,6 @@ export interface AudioQuoteAppendState {
 
   // Error tracking
   error?: string;
-  errors?: Array<{ step: string; error: string }>;
+  errors?: WorkflowStepError[];
+  failedStep?: string;
 }
@@ -5,21 +5,27 @@
 
 import { StateGraph, END, START, Annotation } from '@langchain/langgraph';
 import { AudioQuoteAppendState } from './state';
-import { WorkflowDefinition } from '../../types/workflow';
-import { workflowConfig, inputSchema, outputSchema } from './config';
-import { MCPClientManager } from '../../utils/mcpClient';
+import { WorkflowDefinition, WorkflowContext, CreateGraphOptions, WorkflowStepError } from '../../types/workflow';
+import { workflowConfig, inputSchema, outputSchema, prompt, completions } from './config';
 
 // Import nodes
 import { processQuoteNode } from '../../nodes/jira/processQuote';
 import { generateAudioNode } from '../../nodes/audio/generateAudio';
 import { downloadAudioNode } from '../../nodes/audio/downloadAudio';
 import { generateFileAttachmentPromptNode } from '../../nodes/jira/generateFileAttachmentPrompt';
+import { FAILED_NODE, unlessFailed, workflowFailedNode } from '../../utils/errorRouting';
 
 /**
  * Create the workflow graph
  */
-function createGraph() {
-  const mcpManager = new MCPClientManager();
+function createGraph(context: WorkflowContext, options: CreateGraphOptions = {}) {
+  // Nodes share the server's pooled MCP connections
+  const { mcpManager } = context;
+
+  // Tool nodes check the tools they call are in this workflow's requirements
+  const generateAudio = generateAudioNode(workflowConfig);
+  const downloadAudio = downloadAudioNode(workflowConfig);
+  const generateFileAttachmentPrompt = generateFileAttachmentPromptNode(workflowConfig);
 
   // Define state annotation with proper reducers
   const StateAnnotation = Annotation.Root({
@@ -46,6 +52,9 @@ function createGraph() {
     context: Annotation<string | undefined>({
       reducer: (left, right) => right ?? left
     }),
+    voice: Annotation<string | undefined>({
+      reducer: (left, right) => right ?? left
+    }),
     enhancedQuote: Annotation<string | undefined>({
       reducer: (left, right) => right ?? left
     }),
@@ -64,33 +73,39 @@ function createGraph() {
     error: Annotation<string | undefined>({
       reducer: (left, right) => right ?? left
     }),
-    errors: Annotation<Array<{ step: string; error: string }>>({
+    errors: Annotation<WorkflowStepError[]>({
       reducer: (left, right) => right ?? left,
       default: () => []
     }),
+    failedStep: Annotation<string | undefined>({
+      reducer: (left, right) => right ?? left
+    }),
   });
 
-  // Linear workflow: processQuote -> generateAudio -> downloadAudio -> generateFileAttachmentPrompt
+  // Linear workflow: processQuote -> generateAudio -> downloadAudio -> generateFileAttachmentPrompt,
+  // stopping at the failure terminal as soon as a step fails
   const workflow = new StateGraph(StateAnnotation)
-    .addNode('processQuote', async (state) =>
-      processQuoteNode(state as any, mcpManager)
+    .addNode('processQuote', async (state, config) =>
+      processQuoteNode(state as any, mcpManager, config)
     )
-    .addNode('generateAudio', async (state) =>
-      generateAudioNode(state as any, mcpManager)
+    .addNode('generateAudio', async (state, config) =>
+      generateAudio(state as any, mcpManager, config)
     )
-    .addNode('downloadAudio', async (state) =>
-      downloadAudioNode(state as any, mcpManager)
+    .addNode('downloadAudio', async (state, config) =>
+      downloadAudio(state as any, mcpManager, config)
     )
-    .addNode('generateFileAttachmentPrompt', async (state) =>
-      generateFileAttachmentPromptNode(state as any, mcpManager)
+    .addNode('generateFileAttachmentPrompt', async (state, config) =>
+      generateFileAttachmentPrompt(state as any, mcpManager, config)
     )
+    .addNode(FAILED_NODE, workflowFailedNode)
     .addEdge(START, 'processQuote')
-    .addEdge('processQuote', 'generateAudio')
-    .addEdge('generateAudio', 'downloadAudio')
-    .addEdge('downloadAudio', 'generateFileAttachmentPrompt')
-    .addEdge('generateFileAttachmentPrompt', END);
+    .addConditionalEdges('processQuote', unlessFailed('generateAudio'))
+    .addConditionalEdges('generateAudio', unlessFailed('downloadAudio'))
+    .addConditionalEdges('downloadAudio', unlessFailed('generateFileAttachmentPrompt'))
+    .addConditionalEdges('generateFileAttachmentPrompt', unlessFailed(END))
+    .addEdge(FAILED_NODE, END);
 
-  return workflow.compile();
+  return workflow.compile({ checkpointer: options.checkpointer });
 }
 
 /**
@@ -105,5 +120,7 @@ export const audioQuoteAppendWorkflow: WorkflowDefinition = {
   requirements: workflowConfig,
   inputSchema,
   outputSchema,
+  prompt,
+  completions,
   createGraph,
 };
@@ -3,7 +3,8 @@
  */
 
 import { WorkflowRequirements } from '../../types/workflow';
-import { JSONSchema } from '../../types/workflow';
+import { JSONSchema, WorkflowPrompt, CompletionProvider } from '../../types/workflow';
+import { jiraProjectKeyCompletion } from '../../nodes/jira/completions';
 
 export const workflowConfig: WorkflowRequirements = {
   mcpServers: [
@@ -21,14 +22,17 @@ export const inputSchema: JSONSchema = {
   properties: {
     summary: {
       type: 'string',
+      minLength: 1,
       description: 'Jira ticket summary/title',
     },
     description: {
       type: 'string',
+      minLength: 1,
       description: 'Jira ticket description',
     },
     projectKey: {
       type: 'string',
+      pattern: '^[A-Z][A-Z0-9_]+$',
       description: 'Jira project key (e.g., FEDS)',
     },
     context: {
@@ -57,3 +61,18 @@ export const outputSchema: JSONSchema = {
   },
   required: ['atlassianPrompt', 'nextWorkflow'],
 };
+
+export const completions: Record<string, CompletionProvider> = {
+  projectKey: jiraProjectKeyCompletion,
+};
+
+export const prompt: WorkflowPrompt = {
+  description: 'Create a Jira ticket with a Bradley Plum quote, then attach the quote as audio',
+  instructions: `Create a Jira ticket in project {{projectKey}} titled "{{summary}}" with a Bradley Plum quote, then attach the quote to it as audio.
+
+1. Call the \`create_jira_ticket\` tool with the arguments below. It returns Playwright instructions (atlassianPrompt).
+2. Follow those instructions with the Playwright MCP to create the ticket.
+3. Note the new ticket key and URL, and extract the Bradley Plum quote from the ticket.
+4. Call \`create_audio_quote_and_append_to_ticket\` with ticketKey, ticketUrl, quote and projectKey.
+5. Follow the instructions it returns to attach the audio file to the ticket.`,
+};
@@ -3,6 +3,8 @@
  * Step 1: Generate prompt for Claude to create ticket via Playwright
  */
 
+import { WorkflowStepError } from '../../types/workflow';
+
 export interface CreateJiraTicketState {
   // Input
   summary: string;
@@ -21,5 +23,6 @@ export interface CreateJiraTicketState {
 
   // Error tracking
   error?: string;
-  errors?: Array<{ step: string; error: string }>;
+  errors?: WorkflowStepError[];
+  failedStep?: string;
 }
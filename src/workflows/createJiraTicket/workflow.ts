@@ -5,16 +5,20 @@
 
 import { StateGraph, END, START, Annotation } from '@langchain/langgraph';
 import { CreateJiraTicketState } from './state';
-import { WorkflowDefinition } from '../../types/workflow';
-import { workflowConfig, inputSchema, outputSchema } from './config';
-import { MCPClientManager } from '../../utils/mcpClient';
+import { WorkflowDefinition, WorkflowContext, CreateGraphOptions, WorkflowStepError } from '../../types/workflow';
+import { workflowConfig, inputSchema, outputSchema, prompt, completions } from './config';
 import { generatePromptNode } from '../../nodes/jira/generatePrompt';
+import { FAILED_NODE, hasFailed, unlessFailed, workflowFailedNode } from '../../utils/errorRouting';
 
 /**
  * Create the workflow graph
  */
-function createGraph() {
-  const mcpManager = new MCPClientManager();
+function createGraph(context: WorkflowContext, options: CreateGraphOptions = {}) {
+  // Nodes share the server's pooled MCP connections
+  const { mcpManager } = context;
+
+  // The tool node checks generate_prompt is in this workflow's requirements
+  const generatePrompt = generatePromptNode(workflowConfig);
 
   // Define state annotation
   const StateAnnotation = Annotation.Root({
@@ -28,16 +32,21 @@ function createGraph() {
     nextWorkflow: Annotation<string | undefined>,
     nextWorkflowDescription: Annotation<string | undefined>,
     error: Annotation<string | undefined>,
-    errors: Annotation<Array<{ step: string; error: string }>>,
+    errors: Annotation<WorkflowStepError[]>,
+    failedStep: Annotation<string | undefined>,
   });
 
   // Simple linear workflow - just generate the prompt and return instructions
   const workflow = new StateGraph(StateAnnotation)
-    .addNode('generatePrompt', async (state) => {
-      const result = await generatePromptNode(
-        state as any,
-        mcpManager
+    .addNode('generatePrompt', async (state, config) => {
+      const result = await generatePrompt(
+        state as CreateJiraTicketState,
+        mcpManager,
+        config
       );
+      if (hasFailed(result)) {
+        return result;
+      }
 
       // Add next workflow instructions
       return {
@@ -47,10 +56,12 @@ function createGraph() {
           'After creating the ticket, call this workflow with ticketKey, ticketUrl, and the extracted Bradley Plum quote to generate audio and attach it to the ticket',
       };
     })
+    .addNode(FAILED_NODE, workflowFailedNode)
     .addEdge(START, 'generatePrompt')
-    .addEdge('generatePrompt', END);
+    .addConditionalEdges('generatePrompt', unlessFailed(END))
+    .addEdge(FAILED_NODE, END);
 
-  return workflow.compile();
+  return workflow.compile({ checkpointer: options.checkpointer });
 }
 
 /**
@@ -65,5 +76,7 @@ export const createJiraTicketWorkflow: WorkflowDefinition = {
   requirements: workflowConfig,
   inputSchema,
   outputSchema,
+  prompt,
+  completions,
   createGraph,
 };
@@ -0,0 +1,299 @@
+/**
+ * Declarative workflow compiler
+ * Turns a validated workflow file into a WorkflowDefinition whose graph is a
+ * LangGraph StateGraph built from its nodes and edges
+ */
+
+import { StateGraph, START, END, Annotation, isGraphInterrupt } from '@langchain/langgraph';
+import type { BinaryOperatorAggregate, LangGraphRunnableConfig, StateType, UpdateType } from '@langchain/langgraph';
+import { z } from 'zod';
+import {
+  DeclarativeEdge,
+  DeclarativeNode,
+  DeclarativeWorkflow,
+  EdgeCondition,
+  LLMActionNode,
+  LLMNode,
+  ToolNode,
+} from '../../types/declarativeWorkflow';
+import { CreateGraphOptions, LLMAction, WorkflowContext, WorkflowDefinition, WorkflowRequirements } from '../../types/workflow';
+import { MCPClientManager } from '../../utils/mcpClient';
+import { requestLLMAction } from '../../utils/checkpointing';
+import { reportStepProgress } from '../../utils/progress';
+import { getLLM } from '../../utils/llm';
+import { toolErrorDetails } from '../../utils/errors';
+import { FAILED_NODE, hasFailed, workflowFailedNode } from '../../utils/errorRouting';
+import { logger } from '../../utils/logger';
+import { END_NODE, getStateFields, toOutputMap } from './schema';
+import { getPath, render, renderText } from './templates';
+
+type State = Record<string, any>;
+
+/**
+ * Every state field is a last-value channel; fields are only known at runtime
+ */
+type StateChannels = Record<string, BinaryOperatorAggregate<any, any>>;
+
+/**
+ * The builder for a declarative graph
+ * Node names come from the workflow file, so they are typed as string
+ */
+type DeclarativeGraph = StateGraph<StateChannels, StateType<StateChannels>, UpdateType<StateChannels>, string>;
+
+/**
+ * What a node produced, for its output mapping
+ */
+interface NodeResult {
+  text?: () => string;
+  json: () => unknown;
+}
+
+/**
+ * Compile a declarative workflow into a workflow definition
+ */
+export function compileWorkflow(workflow: DeclarativeWorkflow): WorkflowDefinition {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    version: workflow.version,
+    requirements: toRequirements(workflow),
+    inputSchema: workflow.inputSchema,
+    outputSchema: workflow.outputSchema,
+    prompt: workflow.prompt,
+    createGraph: (context, options) => createGraph(workflow, context, options),
+  };
+}
+
+/**
+ * Declared requirements plus every server and tool the tool nodes call
+ */
+function toRequirements(workflow: DeclarativeWorkflow): WorkflowRequirements {
+  const servers = new Map<string, { name: string; tools: string[]; optional?: boolean }>();
+
+  for (const server of workflow.requirements?.mcpServers ?? []) {
+    servers.set(server.name, { ...server, tools: [...server.tools] });
+  }
+  for (const node of Object.values(workflow.nodes)) {
+    if (node.type !== 'tool') continue;
+
+    const server = servers.get(node.server) ?? { name: node.server, tools: [], optional: false };
+    if (!server.tools.includes(node.tool)) {
+      server.tools.push(node.tool);
+    }
+    servers.set(node.server, server);
+  }
+
+  return {
+    mcpServers: Array.from(servers.values()),
+    environment: workflow.requirements?.environment ?? [],
+  };
+}
+
+function createGraph(workflow: DeclarativeWorkflow, context: WorkflowContext, options: CreateGraphOptions = {}) {
+  const { mcpManager } = context;
+
+  // Every field keeps its last written value
+  const channels: StateChannels = Object.fromEntries(
+    getStateFields(workflow).map(field => [
+      field,
+      Annotation<any>({
+        reducer: (left, right) => right ?? left,
+        default: field === 'completedSteps' || field === 'errors' ? () => [] : () => undefined,
+      }),
+    ])
+  );
+
+  const graph: DeclarativeGraph = new StateGraph(Annotation.Root(channels));
+
+  for (const [name, node] of Object.entries(workflow.nodes)) {
+    graph.addNode(name, async (state, config) => runNode(name, node, state, mcpManager, config));
+  }
+
+  graph.addNode(FAILED_NODE, workflowFailedNode);
+  graph.addEdge(FAILED_NODE, END);
+
+  graph.addEdge(START, workflow.start);
+  for (const edge of workflow.edges) {
+    addEdge(graph, edge, workflow.onError);
+  }
+
+  return graph.compile({ checkpointer: options.checkpointer });
+}
+
+/**
+ * Route out of a node along its edge, unless the node failed
+ * A failed step goes to the error handler if it has not run yet, otherwise
+ * the run stops at the failure terminal
+ */
+function addEdge(graph: DeclarativeGraph, edge: DeclarativeEdge, onError?: string): void {
+  const target = (name: string) => (name === END_NODE ? END : name);
+
+  const routes = edge.branches
+    ? [...edge.branches.map(branch => branch.to), edge.default ?? END_NODE]
+    : [edge.to!];
+  graph.addConditionalEdges(
+    edge.from,
+    state => {
+      if (hasFailed(state)) {
+        return onError && !(state.completedSteps ?? []).includes(onError) && edge.from !== onError
+          ? onError
+          : FAILED_NODE;
+      }
+      if (!edge.branches) {
+        return target(edge.to!);
+      }
+      const branch = edge.branches.find(candidate => matchesCondition(candidate.when, state));
+      return target(branch?.to ?? edge.default ?? END_NODE);
+    },
+    [...new Set([...routes.map(target), FAILED_NODE, ...(onError ? [onError] : [])])]
+  );
+}
+
+function matchesCondition(condition: EdgeCondition, state: State): boolean {
+  const value = getPath(state, condition.field);
+
+  if (condition.exists !== undefined && (value !== undefined && value !== null) !== condition.exists) {
+    return false;
+  }
+  if ('equals' in condition && !isEqual(value, condition.equals)) {
+    return false;
+  }
+  if ('notEquals' in condition && isEqual(value, condition.notEquals)) {
+    return false;
+  }
+  if (condition.matches !== undefined && !new RegExp(condition.matches).test(value === undefined ? '' : String(value))) {
+    return false;
+  }
+  return true;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Run one node and map its result into state
+ * Errors are recorded on the state like the hand-written nodes do; pauses
+ * for LLM actions are passed through to LangGraph
+ */
+async function runNode(
+  name: string,
+  node: DeclarativeNode,
+  state: State,
+  mcpManager: MCPClientManager,
+  config: LangGraphRunnableConfig
+): Promise<State> {
+  try {
+    logger.info(`Running workflow step ${name}`, { type: node.type });
+
+    const result = node.type === 'tool' ? await runToolNode(node, state, mcpManager, config)
+      : node.type === 'llm' ? await runLLMNode(node, state, config)
+      : runLLMActionNode(node, state);
+
+    const updates: State = {};
+    for (const [field, selector] of Object.entries(toOutputMap(node))) {
+      updates[field] = select(result, selector);
+    }
+
+    return {
+      ...updates,
+      ...(node.set ? (render(node.set, { ...state, ...updates }) as State) : {}),
+      currentStep: name,
+      completedSteps: [...(state.completedSteps || []), name],
+    };
+  } catch (error) {
+    if (isGraphInterrupt(error)) {
+      throw error;
+    }
+
+    logger.error(`Workflow step ${name} failed`, { error });
+
+    return {
+      currentStep: 'error',
+      error: `Step ${name} failed: ${(error as Error).message}`,
+      errors: [
+        ...(state.errors || []),
+        {
+          step: name,
+          error: (error as Error).message,
+          ...toolErrorDetails(error),
+        },
+      ],
+    };
+  }
+}
+
+async function runToolNode(
+  node: ToolNode,
+  state: State,
+  mcpManager: MCPClientManager,
+  config: LangGraphRunnableConfig
+): Promise<NodeResult> {
+  const result = await mcpManager.callToolResult(
+    node.server,
+    node.tool,
+    (render(node.args ?? {}, state) as Record<string, unknown>),
+    undefined,
+    { onProgress: progress => reportStepProgress(config, progress), signal: config?.signal }
+  );
+
+  return {
+    text: () => result.text(),
+    json: () => result.json(z.unknown()),
+  };
+}
+
+async function runLLMNode(node: LLMNode, state: State, config: LangGraphRunnableConfig): Promise<NodeResult> {
+  const reply = await getLLM(config).complete({
+    systemPrompt: node.system ? renderText(node.system, state) : undefined,
+    prompt: renderText(node.prompt, state),
+    temperature: node.temperature,
+    maxTokens: node.maxTokens,
+    signal: config?.signal,
+  });
+
+  return {
+    text: () => reply,
+    json: () => parseJsonReply(reply),
+  };
+}
+
+function runLLMActionNode(node: LLMActionNode, state: State): NodeResult {
+  // Pauses here until resume_workflow supplies the results
+  const results = requestLLMAction(render(node.action, state) as LLMAction);
+  return { json: () => results };
+}
+
+/**
+ * Apply an output selector (text, json or json.<path>) to a node's result
+ */
+function select(result: NodeResult, selector: string): unknown {
+  if (selector === 'text') {
+    return result.text!();
+  }
+
+  const json = result.json();
+  if (selector === 'json') {
+    return json;
+  }
+
+  const path = selector.slice('json.'.length);
+  const value = getPath(json, path);
+  if (value === undefined) {
+    throw new Error(`Result has no ${path}`);
+  }
+  return value;
+}
+
+/**
+ * Parse JSON from an LLM reply, allowing a ```json fence around it
+ */
+function parseJsonReply(reply: string): unknown {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : reply);
+  } catch {
+    throw new Error('LLM reply is not JSON');
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Declarative workflow loader
+ * Reads a workflow file (YAML or JSON), validates and compiles it
+ */
+
+import * as fs from 'fs';
+import { extname } from 'path';
+import { parseDocument } from 'yaml';
+import { WorkflowDefinition } from '../../types/workflow';
+import { WorkflowDefinitionError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { validateDeclarativeWorkflow } from './schema';
+import { compileWorkflow } from './compiler';
+
+export const WORKFLOW_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Load one workflow file
+ * Throws WorkflowDefinitionError listing every problem when it is invalid
+ */
+export function loadWorkflowFile(filePath: string): WorkflowDefinition {
+  logger.debug('Loading workflow file', { filePath });
+
+  let raw: unknown;
+  try {
+    raw = parseWorkflowFile(filePath);
+  } catch (error) {
+    if (error instanceof WorkflowDefinitionError) throw error;
+    throw new WorkflowDefinitionError(
+      `Failed to read workflow file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      filePath
+    );
+  }
+
+  const { workflow, issues } = validateDeclarativeWorkflow(raw);
+  if (!workflow) {
+    throw invalidWorkflow(filePath, issues, workflowIdOf(raw));
+  }
+
+  return compileWorkflow(workflow);
+}
+
+/**
+ * An invalid workflow file, with every problem listed
+ */
+export function invalidWorkflow(filePath: string, issues: string[], workflowId?: string): WorkflowDefinitionError {
+  return new WorkflowDefinitionError(
+    `Invalid workflow file ${filePath}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`,
+    filePath,
+    issues,
+    workflowId
+  );
+}
+
+function parseWorkflowFile(filePath: string): unknown {
+  const source = fs.readFileSync(filePath, 'utf8');
+
+  if (extname(filePath).toLowerCase() === '.json') {
+    return JSON.parse(source);
+  }
+
+  const document = parseDocument(source, { prettyErrors: true });
+  if (document.errors.length > 0) {
+    throw invalidWorkflow(filePath, document.errors.map(error => error.message.split('\n')[0].replace(/:$/, '')));
+  }
+  return document.toJS();
+}
+
+function workflowIdOf(raw: unknown): string | undefined {
+  const id = (raw as Record<string, unknown> | null)?.id;
+  return typeof id === 'string' ? id : undefined;
+}
@@ -0,0 +1,297 @@
+/**
+ * Declarative workflow validation
+ * Checks a parsed workflow file against the format, then that its nodes,
+ * edges, templates and mappings fit together
+ */
+
+import { z } from 'zod';
+import { DeclarativeNode, DeclarativeWorkflow, EdgeCondition, OutputMapping } from '../../types/declarativeWorkflow';
+import { JSONSchema } from '../../types/workflow';
+import { findSchemaDefinitionError } from '../../utils/schemaValidation';
+import { FAILED_NODE } from '../../utils/errorRouting';
+import { findReferences } from './templates';
+
+/**
+ * Edge target that finishes the run
+ */
+export const END_NODE = 'end';
+
+/**
+ * State fields every declarative workflow has
+ */
+export const TRACKING_FIELDS = ['currentStep', 'completedSteps', 'error', 'errors', 'failedStep'];
+
+const SELECTOR_PATTERN = /^(text|json(\.[A-Za-z0-9_-]+)*)$/;
+
+const fieldName = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'must be a valid field name');
+const selector = z.string().regex(SELECTOR_PATTERN, 'must be text, json or json.<path>');
+
+const jsonSchema = z.object({
+  type: z.literal('object'),
+  properties: z.record(z.record(z.unknown())).optional(),
+  required: z.array(z.string()).optional(),
+}).passthrough();
+
+const nodeFields = {
+  description: z.string().optional(),
+  output: z.union([fieldName, z.record(fieldName, selector)]).optional(),
+  set: z.record(fieldName, z.unknown()).optional(),
+};
+
+const toolNodeSchema = z.object({
+  type: z.literal('tool'),
+  server: z.string().min(1),
+  tool: z.string().min(1),
+  args: z.record(z.unknown()).optional(),
+  ...nodeFields,
+}).strict();
+
+const llmNodeSchema = z.object({
+  type: z.literal('llm'),
+  system: z.string().optional(),
+  prompt: z.string().min(1),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  ...nodeFields,
+}).strict();
+
+const llmActionNodeSchema = z.object({
+  type: z.literal('llm_action'),
+  action: z.object({
+    type: z.enum(['browser_automation', 'text_processing', 'decision', 'custom']).default('custom'),
+    description: z.string().min(1),
+    prompt: z.string(),
+    requiredOutputs: z.array(fieldName).default([]),
+    availableTools: z.array(z.string()).optional(),
+    context: z.record(z.unknown()).optional(),
+  }).strict(),
+  ...nodeFields,
+}).strict();
+
+const conditionSchema = z.object({
+  field: z.string().min(1),
+  exists: z.boolean().optional(),
+  equals: z.unknown().optional(),
+  notEquals: z.unknown().optional(),
+  matches: z.string().optional(),
+}).strict().refine(
+  condition => ['exists', 'equals', 'notEquals', 'matches'].some(test => test in condition),
+  'needs at least one of exists, equals, notEquals or matches'
+);
+
+const edgeSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1).optional(),
+  branches: z.array(z.object({ when: conditionSchema, to: z.string().min(1) }).strict()).min(1).optional(),
+  default: z.string().min(1).optional(),
+}).strict().refine(
+  edge => (edge.to === undefined) !== (edge.branches === undefined),
+  'needs either to or branches'
+);
+
+const workflowSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'must be 1-64 letters, digits, _ or -'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  version: z.string().min(1).default('1.0.0'),
+  requirements: z.object({
+    mcpServers: z.array(z.object({
+      name: z.string().min(1),
+      tools: z.array(z.string()),
+      optional: z.boolean().optional(),
+    }).strict()).default([]),
+    environment: z.array(z.string()).optional(),
+  }).strict().optional(),
+  inputSchema: jsonSchema,
+  outputSchema: jsonSchema.optional(),
+  prompt: z.object({
+    description: z.string().optional(),
+    instructions: z.string().min(1),
+  }).strict().optional(),
+  start: z.string().min(1),
+  onError: z.string().min(1).optional(),
+  nodes: z.record(z.discriminatedUnion('type', [toolNodeSchema, llmNodeSchema, llmActionNodeSchema])),
+  edges: z.array(edgeSchema),
+}).strict();
+
+/**
+ * Validate a parsed workflow file
+ * Returns the workflow, or every problem found
+ */
+export function validateDeclarativeWorkflow(raw: unknown): { workflow?: DeclarativeWorkflow; issues: string[] } {
+  const parsed = workflowSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { issues: formatIssues(parsed.error) };
+  }
+
+  const workflow: DeclarativeWorkflow = parsed.data;
+  const issues = checkWorkflow(workflow);
+  return issues.length > 0 ? { issues } : { workflow, issues };
+}
+
+/**
+ * The state fields a node writes
+ */
+export function getOutputFields(node: DeclarativeNode): string[] {
+  return [...Object.keys(toOutputMap(node)), ...Object.keys(node.set ?? {})];
+}
+
+/**
+ * A node's output mapping as { field: selector }
+ * LLM actions copy their required outputs by default
+ */
+export function toOutputMap(node: DeclarativeNode): Record<string, string> {
+  const output: OutputMapping | undefined = node.output;
+  if (typeof output === 'string') {
+    return { [output]: node.type === 'llm_action' ? `json.${output}` : 'text' };
+  }
+  if (output) {
+    return output;
+  }
+  if (node.type === 'llm_action') {
+    return Object.fromEntries(node.action.requiredOutputs.map(field => [field, `json.${field}`]));
+  }
+  return {};
+}
+
+/**
+ * Every state field the workflow can hold
+ */
+export function getStateFields(workflow: DeclarativeWorkflow): string[] {
+  return [...new Set([
+    ...TRACKING_FIELDS,
+    ...Object.keys(workflow.inputSchema.properties ?? {}),
+    ...Object.values(workflow.nodes).flatMap(getOutputFields),
+  ])];
+}
+
+function checkWorkflow(workflow: DeclarativeWorkflow): string[] {
+  const issues: string[] = [];
+  const nodeNames = Object.keys(workflow.nodes);
+  const stateFields = new Set(getStateFields(workflow));
+  const isTarget = (name: string) => name === END_NODE || name in workflow.nodes;
+
+  checkSchema(workflow.inputSchema, 'inputSchema', issues);
+  if (workflow.outputSchema) {
+    checkSchema(workflow.outputSchema, 'outputSchema', issues);
+
+    for (const field of workflow.outputSchema.required ?? []) {
+      if (!stateFields.has(field)) {
+        issues.push(`outputSchema.required: ${field} is not an input or written by any node`);
+      }
+    }
+  }
+
+  if (nodeNames.length === 0) {
+    issues.push('nodes: needs at least one node');
+  }
+
+  for (const [name, node] of Object.entries(workflow.nodes)) {
+    const path = `nodes.${name}`;
+
+    if (name === END_NODE || name === FAILED_NODE || name.startsWith('__')) {
+      issues.push(`${path}: ${name} is a reserved name`);
+    }
+    if (node.type === 'llm_action' && Object.values(toOutputMap(node)).includes('text')) {
+      issues.push(`${path}.output: llm_action results are JSON; use json.<field> instead of text`);
+    }
+
+    const templated = node.type === 'tool' ? node.args
+      : node.type === 'llm' ? [node.system, node.prompt]
+      : node.action;
+    for (const field of new Set([...findReferences(templated), ...findReferences(node.set)])) {
+      if (!stateFields.has(field)) {
+        issues.push(`${path}: {{${field}}} is not an input or written by any node`);
+      }
+    }
+  }
+
+  if (!isTarget(workflow.start) || workflow.start === END_NODE) {
+    issues.push(`start: ${workflow.start} is not a node`);
+  }
+  if (workflow.onError !== undefined && !(workflow.onError in workflow.nodes)) {
+    issues.push(`onError: ${workflow.onError} is not a node`);
+  }
+
+  const outgoing = new Map<string, string[]>();
+  workflow.edges.forEach((edge, index) => {
+    const path = `edges[${index}]`;
+
+    if (!(edge.from in workflow.nodes)) {
+      issues.push(`${path}.from: ${edge.from} is not a node`);
+      return;
+    }
+    if (outgoing.has(edge.from)) {
+      issues.push(`${path}.from: ${edge.from} already has an edge; put every route in one edge's branches`);
+      return;
+    }
+
+    const targets = edge.branches
+      ? [...edge.branches.map(branch => branch.to), edge.default ?? END_NODE]
+      : [edge.to!];
+    for (const target of targets) {
+      if (!isTarget(target)) {
+        issues.push(`${path}: ${target} is not a node (or ${END_NODE})`);
+      }
+    }
+
+    edge.branches?.forEach((branch, branchIndex) => {
+      checkCondition(branch.when, `${path}.branches[${branchIndex}].when`, stateFields, issues);
+    });
+
+    outgoing.set(edge.from, targets.filter(target => target !== END_NODE));
+  });
+
+  for (const name of nodeNames) {
+    if (!outgoing.has(name)) {
+      issues.push(`nodes.${name}: has no outgoing edge (use to: ${END_NODE} to finish the run there)`);
+    }
+  }
+
+  // Every node must be reachable from start (the error handler is reachable from any step)
+  const reachable = new Set<string>();
+  const pending = workflow.start in workflow.nodes ? [workflow.start] : [];
+  if (pending.length > 0 && workflow.onError !== undefined && workflow.onError in workflow.nodes) {
+    pending.push(workflow.onError);
+  }
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (reachable.has(name)) continue;
+    reachable.add(name);
+    pending.push(...(outgoing.get(name) ?? []));
+  }
+  if (reachable.size > 0) {
+    for (const name of nodeNames.filter(name => !reachable.has(name))) {
+      issues.push(`nodes.${name}: is not reachable from ${workflow.start}`);
+    }
+  }
+
+  return issues;
+}
+
+function checkSchema(schema: JSONSchema, path: string, issues: string[]): void {
+  const error = findSchemaDefinitionError(schema);
+  if (error) {
+    issues.push(`${path}: ${error}`);
+  }
+}
+
+function checkCondition(condition: EdgeCondition, path: string, stateFields: Set<string>, issues: string[]): void {
+  if (!stateFields.has(condition.field.split('.')[0])) {
+    issues.push(`${path}.field: ${condition.field} is not an input or written by any node`);
+  }
+  if (condition.matches !== undefined) {
+    try {
+      new RegExp(condition.matches);
+    } catch (error) {
+      issues.push(`${path}.matches: ${(error as Error).message}`);
+    }
+  }
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.map(String).join('.');
+    return `${path || '(root)'}: ${issue.message}`;
+  });
+}
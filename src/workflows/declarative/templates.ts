@@ -0,0 +1,70 @@
+/**
+ * Declarative workflow templates
+ * String values may reference state fields as {{field}} or {{field.path}}
+ */
+
+const TEMPLATE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_-]+)*)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_-]+)*)\s*\}\}$/;
+
+/**
+ * Read a dotted path from a value
+ */
+export function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Fill in templates from state
+ * A string that is only "{{field}}" becomes the field's value (keeping its
+ * type); otherwise references are replaced with their text. Objects and
+ * arrays are rendered recursively
+ */
+export function render(value: unknown, state: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+    if (whole) {
+      return getPath(state, whole[1]);
+    }
+    return value.replace(TEMPLATE_PATTERN, (_match, path: string) => toText(getPath(state, path)));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => render(item, state));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, render(item, state)])
+    );
+  }
+
+  return value;
+}
+
+export function renderText(template: string, state: Record<string, unknown>): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, path: string) => toText(getPath(state, path)));
+}
+
+/**
+ * The state fields a value's templates refer to (the first path segment)
+ */
+export function findReferences(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), match => match[1].split('.')[0]);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(findReferences);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value).flatMap(findReferences);
+  }
+  return [];
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
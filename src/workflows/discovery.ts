@@ -0,0 +1,143 @@
+/**
+ * Workflow discovery
+ * Finds workflow modules (<dir>/<name>/workflow.{js,mjs,ts}) and declarative
+ * files (<dir>/<name>.{yaml,yml,json}) in the workflow directories and loads them
+ */
+
+import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { delimiter, dirname, extname, join, resolve, sep } from 'path';
+import { WorkflowDefinition } from '../types/workflow';
+import { WorkflowDefinitionError } from '../utils/errors';
+import { loadWorkflowFile, WORKFLOW_FILE_EXTENSIONS } from './declarative/loader';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Built-in workflows live alongside the registry
+ */
+const BUILTIN_WORKFLOWS_DIR = __dirname;
+
+/**
+ * Default directory for user workflows - FuzroDo's directory, like .env
+ */
+const DEFAULT_WORKFLOWS_DIR = join(__dirname, '..', '..', 'workflows');
+
+// Compiled builds have workflow.js; tsx runs workflow.ts directly
+const MODULE_ENTRIES = ['workflow.js', 'workflow.mjs', 'workflow.ts'];
+
+/**
+ * A workflow module directory or declarative workflow file
+ */
+export interface WorkflowSource {
+  kind: 'module' | 'file';
+  path: string;
+}
+
+/**
+ * Directories searched for workflows: the built-in workflows, then
+ * FUZRODO_WORKFLOWS_DIR (one or more, separated like PATH) or workflows/
+ */
+export function getWorkflowDirs(): string[] {
+  const configured = (process.env.FUZRODO_WORKFLOWS_DIR ?? '')
+    .split(delimiter)
+    .map(dir => dir.trim())
+    .filter(Boolean)
+    .map(dir => resolve(dir));
+
+  return [BUILTIN_WORKFLOWS_DIR, ...(configured.length > 0 ? configured : [DEFAULT_WORKFLOWS_DIR])];
+}
+
+/**
+ * Every workflow source in a directory
+ */
+export function findWorkflowSources(dir: string): WorkflowSource[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry): WorkflowSource[] => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return findModuleEntry(path) ? [{ kind: 'module', path }] : [];
+      }
+      return isWorkflowFile(entry.name) ? [{ kind: 'file', path }] : [];
+    });
+}
+
+/**
+ * The source a changed path (relative to a watched directory) belongs to
+ * The source may no longer exist if it was deleted
+ */
+export function findChangedSource(dir: string, changedPath: string): WorkflowSource | undefined {
+  const [first, ...rest] = changedPath.split(sep);
+  const path = join(dir, first);
+
+  if (rest.length > 0) {
+    return { kind: 'module', path };
+  }
+  if (isWorkflowFile(first)) {
+    return { kind: 'file', path };
+  }
+  // A module directory created, renamed or removed
+  return extname(first) === '' ? { kind: 'module', path } : undefined;
+}
+
+/**
+ * Check a source still exists
+ */
+export function sourceExists(source: WorkflowSource): boolean {
+  return source.kind === 'module' ? findModuleEntry(source.path) !== undefined : fs.existsSync(source.path);
+}
+
+/**
+ * Load the workflows a source defines
+ * fresh re-imports a module rather than reusing the cached one (reloads)
+ * Throws WorkflowDefinitionError when the source cannot be loaded
+ */
+export async function loadWorkflowSource(source: WorkflowSource, fresh = false): Promise<WorkflowDefinition[]> {
+  if (source.kind === 'file') {
+    return [loadWorkflowFile(source.path)];
+  }
+
+  const entry = findModuleEntry(source.path);
+  if (!entry) {
+    throw new WorkflowDefinitionError(`Workflow module ${source.path} has no workflow.js or workflow.ts`, source.path);
+  }
+
+  let module: Record<string, unknown>;
+  try {
+    const url = pathToFileURL(entry).href;
+    module = await import(fresh ? `${url}?v=${Date.now()}` : url);
+  } catch (error) {
+    throw new WorkflowDefinitionError(
+      `Failed to load workflow module ${entry}: ${error instanceof Error ? error.message : String(error)}`,
+      entry
+    );
+  }
+
+  const workflows = Object.values(module).filter(isWorkflowDefinition);
+  if (workflows.length === 0) {
+    throw new WorkflowDefinitionError(`Workflow module ${entry} does not export a workflow definition`, entry);
+  }
+  return workflows;
+}
+
+function findModuleEntry(dir: string): string | undefined {
+  return MODULE_ENTRIES.map(entry => join(dir, entry)).find(entry => fs.existsSync(entry));
+}
+
+function isWorkflowFile(name: string): boolean {
+  return WORKFLOW_FILE_EXTENSIONS.includes(extname(name).toLowerCase());
+}
+
+function isWorkflowDefinition(value: unknown): value is WorkflowDefinition {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const candidate = value as Partial<WorkflowDefinition>;
+  return typeof candidate.id === 'string'
+    && typeof candidate.name === 'string'
+    && typeof candidate.createGraph === 'function'
+    && typeof candidate.inputSchema === 'object';
+}
@@ -2,7 +2,9 @@
  * Configuration for Jira Audio Quote workflow
  */
 
-import { WorkflowRequirements, JSONSchema } from '../../types/workflow';
+import { WorkflowRequirements, JSONSchema, WorkflowPrompt, CompletionProvider } from '../../types/workflow';
+import { jiraProjectKeyCompletion } from '../../nodes/jira/completions';
+import { elevenLabsVoiceCompletion } from '../../nodes/audio/completions';
 
 export const workflowConfig: WorkflowRequirements = {
   mcpServers: [
@@ -19,8 +21,8 @@ export const workflowConfig: WorkflowRequirements = {
     // NOTE: Playwright is NOT required here!
     // FuzroDo generates instructions that Claude executes via Playwright.
     // Claude (not FuzroDo) calls Playwright based on those instructions.
-  ],
-  environment: ['OPENAI_API_KEY'] // For sub-agent quote enhancement
+  ]
+  // Quote enhancement uses client sampling, or OPENAI_API_KEY when the client cannot sample
 };
 
 export const inputSchema: JSONSchema = {
@@ -28,19 +30,26 @@ export const inputSchema: JSONSchema = {
   properties: {
     summary: {
       type: 'string',
+      minLength: 1,
       description: 'Jira ticket summary/title'
     },
     description: {
       type: 'string',
+      minLength: 1,
       description: 'Jira ticket description'
     },
     projectKey: {
       type: 'string',
+      pattern: '^[A-Z][A-Z0-9_]+$',
       description: 'Jira project key (e.g., PROJ)'
     },
     context: {
       type: 'string',
       description: 'Optional context for quote enhancement (e.g., "mystical, contemplative")'
+    },
+    voice: {
+      type: 'string',
+      description: 'Optional ElevenLabs voice name (defaults to the ElevenLabs MCP default voice)'
     }
   },
   required: ['summary', 'description', 'projectKey']
@@ -71,3 +80,18 @@ export const outputSchema: JSONSchema = {
     }
   }
 };
+
+export const completions: Record<string, CompletionProvider> = {
+  projectKey: jiraProjectKeyCompletion,
+  voice: elevenLabsVoiceCompletion
+};
+
+export const prompt: WorkflowPrompt = {
+  description: 'Create a Jira ticket with a Bradley Plum quote and generate audio for it in one run',
+  instructions: `Create a Jira ticket in project {{projectKey}} titled "{{summary}}" with a Bradley Plum quote and audio narration.
+
+1. Call the \`create_jira_with_audio_quote\` tool with the arguments below. It pauses with Playwright instructions and a resume token.
+2. Follow the instructions with the Playwright MCP to create the ticket.
+3. Call \`resume_workflow\` with the resume token and results { ticketKey, ticketUrl, quote }.
+4. The workflow then generates the audio and returns the path to the file.`
+};
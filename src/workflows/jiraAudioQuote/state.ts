@@ -12,6 +12,7 @@ export interface JiraAudioQuoteState extends BaseWorkflowState {
 
   // Optional inputs
   context?: string; // Context for quote enhancement
+  voice?: string; // ElevenLabs voice name
 
   // Generated/returned from Claude during resume
   atlassianPrompt?: string;
@@ -26,7 +27,4 @@ export interface JiraAudioQuoteState extends BaseWorkflowState {
   // Generated by ElevenLabs
   audioId?: string;
   audioPath?: string;
-
-  // Resuming flag
-  resuming?: boolean;
 }
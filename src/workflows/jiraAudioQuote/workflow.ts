@@ -5,22 +5,28 @@
 
 import { StateGraph, END, START, Annotation } from '@langchain/langgraph';
 import { JiraAudioQuoteState } from './state';
-import { WorkflowDefinition } from '../../types/workflow';
-import { workflowConfig, inputSchema, outputSchema } from './config';
-import { MCPClientManager } from '../../utils/mcpClient';
+import { WorkflowDefinition, WorkflowContext, CreateGraphOptions, WorkflowStepError } from '../../types/workflow';
+import { workflowConfig, inputSchema, outputSchema, prompt, completions } from './config';
 
 // Import nodes
 import { generatePromptNode } from '../../nodes/jira/generatePrompt';
+import { createTicketNode } from '../../nodes/jira/createTicket';
 import { processQuoteNode } from '../../nodes/jira/processQuote';
 import { generateAudioNode } from '../../nodes/audio/generateAudio';
 import { downloadAudioNode } from '../../nodes/audio/downloadAudio';
+import { FAILED_NODE, unlessFailed, workflowFailedNode } from '../../utils/errorRouting';
 
 /**
  * Create the workflow graph
  */
-function createGraph() {
-  // Note: We need to pass mcpManager to nodes, so we'll wrap them
-  const mcpManager = new MCPClientManager();
+function createGraph(context: WorkflowContext, options: CreateGraphOptions = {}) {
+  // Nodes share the server's pooled MCP connections
+  const { mcpManager } = context;
+
+  // Tool nodes check the tools they call are in this workflow's requirements
+  const generatePrompt = generatePromptNode(workflowConfig);
+  const generateAudio = generateAudioNode(workflowConfig);
+  const downloadAudio = downloadAudioNode(workflowConfig);
 
   // Define state annotation for proper typing
   const StateAnnotation = Annotation.Root({
@@ -30,6 +36,7 @@ function createGraph() {
     description: Annotation<string>,
     projectKey: Annotation<string>,
     context: Annotation<string | undefined>,
+    voice: Annotation<string | undefined>,
     atlassianPrompt: Annotation<string | undefined>,
     quote: Annotation<string | undefined>,
     ticketKey: Annotation<string | undefined>,
@@ -38,51 +45,31 @@ function createGraph() {
     voiceDirections: Annotation<string | undefined>,
     audioId: Annotation<string | undefined>,
     audioPath: Annotation<string | undefined>,
-    resuming: Annotation<boolean | undefined>,
     error: Annotation<string | undefined>,
-    errors: Annotation<Array<{step: string; error: string}>>,
-    // PartialWorkflowResult properties
-    status: Annotation<string | undefined>,
-    workflowId: Annotation<string | undefined>,
-    resumeToken: Annotation<string | undefined>,
-    action: Annotation<any>,
-    message: Annotation<string | undefined>
+    errors: Annotation<WorkflowStepError[]>,
+    failedStep: Annotation<string | undefined>
   });
 
   // Create workflow with annotation
   const workflow = new StateGraph(StateAnnotation)
     // Add nodes with mcpManager
-    .addNode('generatePrompt', async (state) => generatePromptNode(state as JiraAudioQuoteState, mcpManager))
-    .addNode('processQuote', async (state) => processQuoteNode(state as JiraAudioQuoteState, mcpManager))
-    .addNode('generateAudio', async (state) => generateAudioNode(state as JiraAudioQuoteState, mcpManager))
-    .addNode('downloadAudio', async (state) => downloadAudioNode(state as JiraAudioQuoteState, mcpManager))
-    // Set entry point with conditional routing for resume
-    .addConditionalEdges(
-      START,
-      (state: any) => {
-        // If resuming, skip to processQuote
-        if (state.resuming && state.quote) {
-          return 'processQuote';
-        }
-        // Otherwise start with generatePrompt
-        return 'generatePrompt';
-      },
-      // Explicitly map possible destinations
-      {
-        generatePrompt: 'generatePrompt',
-        processQuote: 'processQuote'
-      }
-    )
-    // After generatePrompt, it returns PartialWorkflowResult which will end
-    .addEdge('generatePrompt', END)
-    // After processQuote, go to generateAudio
-    .addEdge('processQuote', 'generateAudio')
-    // After generateAudio, go to downloadAudio
-    .addEdge('generateAudio', 'downloadAudio')
-    // After downloadAudio, end
-    .addEdge('downloadAudio', END);
+    .addNode('generatePrompt', async (state, config) => generatePrompt(state as JiraAudioQuoteState, mcpManager, config))
+    // Pauses with interrupt() until Claude returns the ticket details
+    .addNode('createTicket', async (state) => createTicketNode(state as JiraAudioQuoteState))
+    .addNode('processQuote', async (state, config) => processQuoteNode(state as JiraAudioQuoteState, mcpManager, config))
+    .addNode('generateAudio', async (state, config) => generateAudio(state as JiraAudioQuoteState, mcpManager, config))
+    .addNode('downloadAudio', async (state, config) => downloadAudio(state as JiraAudioQuoteState, mcpManager, config))
+    .addNode(FAILED_NODE, workflowFailedNode)
+    .addEdge(START, 'generatePrompt')
+    // Each step goes on to the next unless it failed, which stops the run
+    .addConditionalEdges('generatePrompt', unlessFailed('createTicket'))
+    .addConditionalEdges('createTicket', unlessFailed('processQuote'))
+    .addConditionalEdges('processQuote', unlessFailed('generateAudio'))
+    .addConditionalEdges('generateAudio', unlessFailed('downloadAudio'))
+    .addConditionalEdges('downloadAudio', unlessFailed(END))
+    .addEdge(FAILED_NODE, END);
 
-  return workflow.compile();
+  return workflow.compile({ checkpointer: options.checkpointer });
 }
 
 /**
@@ -96,5 +83,7 @@ export const jiraAudioQuoteWorkflow: WorkflowDefinition = {
   requirements: workflowConfig,
   inputSchema,
   outputSchema,
+  prompt,
+  completions,
   createGraph
 };
@@ -3,22 +3,67 @@
  * Manages registration and discovery of workflows
  */
 
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
 import { WorkflowDefinition } from '../types/workflow';
 import { logger } from '../utils/logger';
+import { toToolOutputSchema } from '../utils/workflowOutput';
+import { WorkflowDefinitionError } from '../utils/errors';
+import { invalidWorkflow } from './declarative/loader';
+import {
+  WorkflowSource,
+  findChangedSource,
+  findWorkflowSources,
+  getWorkflowDirs,
+  loadWorkflowSource,
+  sourceExists,
+} from './discovery';
 
-export class WorkflowRegistry {
-  private workflows: Map<string, WorkflowDefinition> = new Map();
+// Editors write files in several steps; wait for them to settle
+const RELOAD_DEBOUNCE_MS = 250;
+
+/**
+ * Key for one version of a workflow
+ */
+function versionKey(id: string, version: string): string {
+  return `${id}@${version}`;
+}
+
+/**
+ * A workflow module or file that failed to load
+ */
+export interface WorkflowLoadFailure {
+  path: string;
+  error: WorkflowDefinitionError;
+  failedAt: string;
+  workflows: string[]; // id@version of workflows from an earlier load of the source, still registered
+}
+
+/**
+ * Holds every registered version of each workflow
+ * A workflow's ID names its latest version; with FUZRODO_VERSIONED_TOOLS=true
+ * each version is also listed as a tool of its own (<id>_v<version>)
+ * Emits 'workflowsChanged' when discovered workflows are added, reloaded or removed
+ */
+export class WorkflowRegistry extends EventEmitter {
+  private workflows: Map<string, Map<string, WorkflowDefinition>> = new Map(); // ID -> version -> workflow
+  private sources: Map<string, string[]> = new Map(); // Source path -> id@version of workflows it registered
+  private failures: Map<string, WorkflowLoadFailure> = new Map();
+  private watchers: fs.FSWatcher[] = [];
+  private pendingReloads: Map<string, NodeJS.Timeout> = new Map();
+  private loading: Promise<void> = Promise.resolve();
 
   /**
    * Register a workflow
+   * Other versions of the workflow stay registered alongside it
    */
   register(workflow: WorkflowDefinition): void {
-    if (this.workflows.has(workflow.id)) {
-      logger.warn(`Workflow ${workflow.id} is already registered, overwriting`);
+    if (this.get(workflow.id, workflow.version)) {
+      logger.warn(`Workflow ${workflow.id} version ${workflow.version} is already registered, overwriting`);
     }
 
-    this.workflows.set(workflow.id, workflow);
-    logger.info(`Registered workflow: ${workflow.id} (${workflow.name})`);
+    this.add(workflow);
+    logger.info(`Registered workflow: ${workflow.id} v${workflow.version} (${workflow.name})`);
   }
 
   /**
@@ -31,10 +76,196 @@ export class WorkflowRegistry {
   }
 
   /**
-   * Get a workflow by ID
+   * Register the workflow modules and declarative files in the workflow
+   * directories (built-in workflows, then FUZRODO_WORKFLOWS_DIR)
+   * A source that fails to load is skipped and reported by getLoadFailures()
+   */
+  async discover(dirs: string[] = getWorkflowDirs()): Promise<void> {
+    for (const dir of dirs) {
+      if (!fs.existsSync(dir)) {
+        if (process.env.FUZRODO_WORKFLOWS_DIR) {
+          logger.warn(`Workflows directory not found: ${dir}`);
+        }
+        continue;
+      }
+
+      for (const source of findWorkflowSources(dir)) {
+        await this.enqueue(() => this.loadSource(source));
+      }
+    }
+  }
+
+  /**
+   * Watch the workflow directories, reloading sources as they are added,
+   * edited or deleted
+   * A reloaded module's own file is re-imported, but modules it imports stay
+   * cached until restart
+   * Returns a function that stops watching
+   */
+  watch(dirs: string[] = getWorkflowDirs()): () => void {
+    for (const dir of dirs) {
+      if (!fs.existsSync(dir)) continue;
+
+      try {
+        const watcher = fs.watch(dir, { recursive: true }, (_event, filename) => {
+          const source = filename ? findChangedSource(dir, filename.toString()) : undefined;
+          if (source) {
+            this.scheduleReload(source);
+          }
+        });
+        watcher.on('error', error => logger.error(`Stopped watching workflows directory ${dir}`, { error }));
+        this.watchers.push(watcher);
+        logger.info(`Watching workflows directory: ${dir}`);
+      } catch (error) {
+        logger.error(`Cannot watch workflows directory ${dir}`, { error });
+      }
+    }
+
+    return () => this.stopWatching();
+  }
+
+  /**
+   * Stop watching the workflow directories
+   */
+  stopWatching(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    for (const timer of this.pendingReloads.values()) {
+      clearTimeout(timer);
+    }
+    this.watchers = [];
+    this.pendingReloads.clear();
+  }
+
+  /**
+   * Workflow sources that failed to load
+   */
+  getLoadFailures(): WorkflowLoadFailure[] {
+    return Array.from(this.failures.values());
+  }
+
+  private scheduleReload(source: WorkflowSource): void {
+    clearTimeout(this.pendingReloads.get(source.path));
+    this.pendingReloads.set(source.path, setTimeout(() => {
+      this.pendingReloads.delete(source.path);
+      void this.enqueue(async () => {
+        if (await this.loadSource(source, true)) {
+          this.emit('workflowsChanged');
+        }
+      });
+    }, RELOAD_DEBOUNCE_MS));
+  }
+
+  /**
+   * Run loads one at a time so a source's reloads cannot interleave
    */
-  get(id: string): WorkflowDefinition | undefined {
-    return this.workflows.get(id);
+  private enqueue(load: () => Promise<unknown>): Promise<void> {
+    this.loading = this.loading.then(load).then(() => undefined, error => {
+      logger.error('Failed to load workflows', { error });
+    });
+    return this.loading;
+  }
+
+  /**
+   * Load (or reload) a source's workflows
+   * A source that fails keeps its previously loaded workflows registered; a
+   * deleted source's workflows are unregistered. Versions a reload replaces
+   * stay registered so paused runs can resume on them
+   * Returns whether the registered workflows changed
+   */
+  private async loadSource(source: WorkflowSource, fresh = false): Promise<boolean> {
+    const previous = this.sources.get(source.path) ?? [];
+
+    if (!sourceExists(source)) {
+      previous.forEach(key => this.unregisterKey(key));
+      this.sources.delete(source.path);
+      const failed = this.failures.delete(source.path);
+      return previous.length > 0 || failed;
+    }
+
+    let workflows: WorkflowDefinition[];
+    try {
+      workflows = await loadWorkflowSource(source, fresh);
+
+      const taken = workflows.filter(workflow =>
+        this.get(workflow.id, workflow.version) && !previous.includes(versionKey(workflow.id, workflow.version))
+      );
+      if (taken.length > 0) {
+        throw invalidWorkflow(
+          source.path,
+          taken.map(workflow => `id: workflow ${workflow.id} version ${workflow.version} is already registered`),
+          taken[0].id
+        );
+      }
+    } catch (error) {
+      const failure = error instanceof WorkflowDefinitionError
+        ? error
+        : new WorkflowDefinitionError(
+          `Failed to load workflows from ${source.path}: ${error instanceof Error ? error.message : String(error)}`,
+          source.path
+        );
+
+      logger.error(failure.message);
+      if (previous.length > 0) {
+        logger.warn(`Keeping the previously loaded ${previous.join(', ')}`);
+      }
+      this.failures.set(source.path, {
+        path: source.path,
+        error: failure,
+        failedAt: new Date().toISOString(),
+        workflows: previous,
+      });
+      return false;
+    }
+
+    this.failures.delete(source.path);
+
+    const loaded = workflows.map(workflow => versionKey(workflow.id, workflow.version));
+    const ids = new Set(workflows.map(workflow => workflow.id));
+    const retained = previous.filter(key => !loaded.includes(key) && ids.has(key.slice(0, key.lastIndexOf('@'))));
+    for (const key of previous.filter(key => !loaded.includes(key) && !retained.includes(key))) {
+      this.unregisterKey(key);
+    }
+    for (const workflow of workflows) {
+      const key = versionKey(workflow.id, workflow.version);
+      this.add(workflow);
+      logger.info(`${previous.includes(key) ? 'Reloaded' : 'Registered'} workflow: ${workflow.id} v${workflow.version} (${workflow.name})`);
+    }
+    this.sources.set(source.path, [...retained, ...loaded]);
+    return true;
+  }
+
+  private add(workflow: WorkflowDefinition): void {
+    const versions = this.workflows.get(workflow.id) ?? new Map<string, WorkflowDefinition>();
+    versions.set(workflow.version, workflow);
+    this.workflows.set(workflow.id, versions);
+  }
+
+  private unregisterKey(key: string): void {
+    const at = key.lastIndexOf('@');
+    this.unregister(key.slice(0, at), key.slice(at + 1));
+  }
+
+  /**
+   * Get a workflow by ID: the given version, or the latest
+   */
+  get(id: string, version?: string): WorkflowDefinition | undefined {
+    const versions = this.workflows.get(id);
+    if (!versions) return undefined;
+
+    return version === undefined ? latestVersion(versions) : versions.get(version);
+  }
+
+  /**
+   * Get the workflow a tool name refers to: a workflow ID (its latest
+   * version) or, with versioned tools enabled, a versioned tool name
+   */
+  getTool(name: string): WorkflowDefinition | undefined {
+    const workflow = this.get(name);
+    if (workflow || !versionedToolsEnabled()) return workflow;
+
+    return this.listAllVersions().find(candidate => toVersionedToolName(candidate) === name);
   }
 
   /**
@@ -45,10 +276,22 @@ export class WorkflowRegistry {
   }
 
   /**
-   * List all registered workflows
+   * List all registered workflows (the latest version of each)
    */
   list(): WorkflowDefinition[] {
-    return Array.from(this.workflows.values());
+    return this.getIds().map(id => this.get(id)!);
+  }
+
+  /**
+   * List every registered version of a workflow, oldest first
+   */
+  listVersions(id: string): WorkflowDefinition[] {
+    return Array.from(this.workflows.get(id)?.values() ?? [])
+      .sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  private listAllVersions(): WorkflowDefinition[] {
+    return this.getIds().flatMap(id => this.listVersions(id));
   }
 
   /**
@@ -59,12 +302,24 @@ export class WorkflowRegistry {
   }
 
   /**
-   * Unregister a workflow
+   * Unregister a workflow: one version, or every version
    */
-  unregister(id: string): boolean {
-    const deleted = this.workflows.delete(id);
-    if (deleted) {
+  unregister(id: string, version?: string): boolean {
+    const versions = this.workflows.get(id);
+    if (!versions) return false;
+
+    if (version === undefined) {
+      this.workflows.delete(id);
       logger.info(`Unregistered workflow: ${id}`);
+      return true;
+    }
+
+    const deleted = versions.delete(version);
+    if (deleted) {
+      if (versions.size === 0) {
+        this.workflows.delete(id);
+      }
+      logger.info(`Unregistered workflow: ${id} v${version}`);
     }
     return deleted;
   }
@@ -91,21 +346,70 @@ export class WorkflowRegistry {
     name: string;
     description: string;
     inputSchema: any;
+    outputSchema?: any;
   }> {
-    return this.list().map(workflow => ({
-      name: workflow.id,
-      description: `${workflow.name} - ${workflow.description}`,
+    const toTool = (workflow: WorkflowDefinition, name: string, description: string) => ({
+      name,
+      description,
       inputSchema: workflow.inputSchema,
-    }));
+      outputSchema: toToolOutputSchema(workflow),
+    });
+
+    const latest = this.list().map(workflow =>
+      toTool(workflow, workflow.id, `${workflow.name} - ${workflow.description}`)
+    );
+    if (!versionedToolsEnabled()) {
+      return latest;
+    }
+
+    return [
+      ...latest,
+      ...this.listAllVersions().map(workflow =>
+        toTool(
+          workflow,
+          toVersionedToolName(workflow),
+          `${workflow.name} (version ${workflow.version}) - ${workflow.description}`
+        )
+      ),
+    ];
   }
 }
 
-// Export singleton instance
-export const workflowRegistry = new WorkflowRegistry();
+/**
+ * Tool name for one version of a workflow, e.g. create_jira_ticket_v1_2_0
+ */
+export function toVersionedToolName(workflow: WorkflowDefinition): string {
+  return `${workflow.id}_v${workflow.version.replace(/[^A-Za-z0-9]+/g, '_')}`;
+}
 
-// Register workflows
-import { createJiraTicketWorkflow } from './createJiraTicket/workflow';
-import { audioQuoteAppendWorkflow } from './audioQuoteAppend/workflow';
+function versionedToolsEnabled(): boolean {
+  return process.env.FUZRODO_VERSIONED_TOOLS === 'true';
+}
+
+function latestVersion(versions: Map<string, WorkflowDefinition>): WorkflowDefinition | undefined {
+  return Array.from(versions.values()).reduce<WorkflowDefinition | undefined>(
+    (latest, workflow) => (!latest || compareVersions(workflow.version, latest.version) > 0 ? workflow : latest),
+    undefined
+  );
+}
+
+/**
+ * Compare versions part by part (1.10.0 > 1.9.2); numeric parts compare as
+ * numbers, anything else as text
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.+-]/);
+  const right = b.split(/[.+-]/);
 
-workflowRegistry.register(createJiraTicketWorkflow);
-workflowRegistry.register(audioQuoteAppendWorkflow);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const [x = '0', y = '0'] = [left[i], right[i]];
+    const difference = /^\d+$/.test(x) && /^\d+$/.test(y)
+      ? Number(x) - Number(y)
+      : x.localeCompare(y);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  return 0;
+}
+
+// Export singleton instance
+export const workflowRegistry = new WorkflowRegistry();